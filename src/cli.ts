@@ -0,0 +1,433 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { parsePlan } from './planParser';
+import { readConfigFile } from './configFile';
+import { globToRegExp, getPlanFilePatterns } from './globUtils';
+import { getPercentDone, resolveStates } from './taskStates';
+import { CheckRule, HierarchyItem, ItemType, ParsedPlan, StateDefinition, TaskViewConfig } from './types';
+
+/**
+ * Headless Task Planner CLI for CI pipelines and terminals
+ *
+ * Shares planParser and .codr/task-planner.json handling with the extension,
+ * without depending on the vscode API.
+ */
+
+const USAGE = `Usage: task-planner <command> [files...] [options]
+
+Commands:
+  summary                 Print progress per plan file
+  list --state <states>   List tasks in the given state ids (comma-separated)
+  check                   Exit with code 1 when a threshold fails
+
+Options:
+  --root <dir>            Folder with .codr/task-planner.json (default: current directory)
+  --json                  Print JSON instead of text
+  --max-blocked <n>       check: fail when more than n blocked tasks remain
+  --max-in-progress <n>   check: fail when more than n active tasks remain
+  --max-pending <n>       check: fail when more than n open tasks remain
+  --min-done <percent>    check: fail when less than percent of tasks are done
+
+Without files, plan files are discovered using the include patterns and
+exclusions in .codr/task-planner.json. Thresholds given as options apply to
+every file; "checks" in the config can target files by glob.`;
+
+/** Exit codes */
+const EXIT_OK = 0;
+const EXIT_CHECK_FAILED = 1;
+const EXIT_USAGE = 2;
+
+interface CliOptions {
+  command: string;
+  files: string[];
+  root: string;
+  json: boolean;
+  states: string[];
+  rule: CheckRule;
+}
+
+/** A parsed plan together with its path relative to the root */
+interface LoadedPlan {
+  relativePath: string;
+  plan: ParsedPlan;
+}
+
+/** A task with the headings above it, for `list` output */
+interface ListedTask {
+  file: string;
+  line: number;            // 1-indexed, as shown in editors
+  state: string;
+  text: string;
+  headingPath: string[];
+  assignees?: string[];
+  tags?: string[];
+  due?: string;
+}
+
+/** A threshold that was not met, for `check` output */
+interface CheckFailure {
+  file: string;
+  message: string;
+}
+
+class UsageError extends Error {}
+
+async function main(argv: string[]): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseArgs(argv);
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}\n`);
+    return EXIT_USAGE;
+  }
+
+  if (options.command === 'help') {
+    writeLine(USAGE);
+    return EXIT_OK;
+  }
+
+  const config = await readConfigFile(options.root);
+  const states = resolveStates(config.states);
+
+  // Custom states come from the config, so state ids are checked only now
+  const validStates = states.map(state => state.id);
+  const invalid = options.states.filter(state => !validStates.includes(state));
+  if (invalid.length > 0) {
+    process.stderr.write(`Unknown state: ${invalid.join(', ')} (expected ${validStates.join(', ')})\n\n${USAGE}\n`);
+    return EXIT_USAGE;
+  }
+
+  const plans = await loadPlans(options, config, states);
+
+  switch (options.command) {
+    case 'summary':
+      printSummary(plans, options.json);
+      return EXIT_OK;
+
+    case 'list':
+      printList(plans, options.states, options.json);
+      return EXIT_OK;
+
+    case 'check':
+      return printCheck(plans, getCheckRules(options.rule, config), options.json)
+        ? EXIT_OK
+        : EXIT_CHECK_FAILED;
+
+    default:
+      process.stderr.write(`${USAGE}\n`);
+      return EXIT_USAGE;
+  }
+}
+
+/**
+ * Parses command line arguments
+ */
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    command: '',
+    files: [],
+    root: process.cwd(),
+    json: false,
+    states: [],
+    rule: {}
+  };
+
+  const takeValue = (index: number, flag: string): string => {
+    const value = argv[index + 1];
+    if (value === undefined || value.startsWith('--')) {
+      throw new UsageError(`Missing value for ${flag}`);
+    }
+    return value;
+  };
+
+  const takeNumber = (index: number, flag: string): number => {
+    const value = Number(takeValue(index, flag));
+    if (isNaN(value) || value < 0) {
+      throw new UsageError(`${flag} expects a non-negative number`);
+    }
+    return value;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    switch (arg) {
+      case '--help':
+      case '-h':
+        options.command = 'help';
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      case '--root':
+        options.root = path.resolve(takeValue(i++, arg));
+        break;
+      case '--state':
+        options.states.push(...takeValue(i++, arg).split(',').map(state => state.trim()));
+        break;
+      case '--max-blocked':
+        options.rule.maxBlocked = takeNumber(i++, arg);
+        break;
+      case '--max-in-progress':
+        options.rule.maxInProgress = takeNumber(i++, arg);
+        break;
+      case '--max-pending':
+        options.rule.maxPending = takeNumber(i++, arg);
+        break;
+      case '--min-done':
+        options.rule.minPercentDone = takeNumber(i++, arg);
+        break;
+      default:
+        if (arg.startsWith('--')) {
+          throw new UsageError(`Unknown option: ${arg}`);
+        }
+        if (!options.command) {
+          options.command = arg;
+        } else {
+          options.files.push(arg);
+        }
+    }
+  }
+
+  if (options.command === 'list' && options.states.length === 0) {
+    throw new UsageError('list requires --state');
+  }
+
+  return options;
+}
+
+/**
+ * Parses the given files, or every plan file discovered under the root
+ */
+async function loadPlans(options: CliOptions, config: TaskViewConfig, states: StateDefinition[]): Promise<LoadedPlan[]> {
+  const files = options.files.length > 0
+    ? options.files.map(file => path.resolve(file))
+    : findPlanFilesOnDisk(options.root, config);
+
+  const plans: LoadedPlan[] = [];
+
+  for (const filePath of files) {
+    const content = await fs.promises.readFile(filePath, 'utf-8');
+    plans.push({
+      relativePath: toPosixPath(path.relative(options.root, filePath)),
+      plan: parsePlan(content, filePath, states)
+    });
+  }
+
+  return plans;
+}
+
+/**
+ * Walks the root folder for plan files, honoring include patterns and exclusions
+ */
+function findPlanFilesOnDisk(root: string, config: TaskViewConfig): string[] {
+  const includes = getPlanFilePatterns(config).map(globToRegExp);
+  const exclusions = config.exclusions.flatMap(toExclusionPatterns).map(globToRegExp);
+  const found: string[] = [];
+
+  const walk = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, entry.name);
+      const relativePath = toPosixPath(path.relative(root, fullPath));
+
+      if (entry.isDirectory()) {
+        // "**/node_modules/**" matches "node_modules/" - skip the whole folder
+        if (!exclusions.some(regex => regex.test(`${relativePath}/`))) {
+          walk(fullPath);
+        }
+      } else if (
+        entry.isFile() &&
+        includes.some(regex => regex.test(relativePath)) &&
+        !exclusions.some(regex => regex.test(relativePath))
+      ) {
+        found.push(fullPath);
+      }
+    }
+  };
+
+  walk(root);
+
+  // Sort alphabetically by filename, like the extension's file selector
+  return found.sort((a, b) => path.basename(a).localeCompare(path.basename(b)));
+}
+
+/**
+ * A bare folder such as "docs/old" excludes everything in it, as it does for the extension's findFiles
+ */
+function toExclusionPatterns(pattern: string): string[] {
+  const trimmed = pattern.replace(/\/+$/, '');
+  return trimmed.endsWith('/**') ? [trimmed] : [trimmed, `${trimmed}/**`];
+}
+
+/**
+ * Prints per-file progress and a total
+ */
+function printSummary(plans: LoadedPlan[], json: boolean): void {
+  const total = { totalCount: 0, done: 0, active: 0, blocked: 0 };
+  plans.forEach(({ plan }) => {
+    total.totalCount += plan.totalCount;
+    total.done += plan.categoryCount.done;
+    total.active += plan.categoryCount.active;
+    total.blocked += plan.categoryCount.blocked;
+  });
+
+  if (json) {
+    writeJson({
+      plans: plans.map(({ relativePath, plan }) => ({
+        file: relativePath,
+        title: plan.title,
+        totalCount: plan.totalCount,
+        stateCount: plan.stateCount,
+        categoryCount: plan.categoryCount,
+        percentDone: getPercentDone(plan.categoryCount.done, plan.totalCount)
+      })),
+      total: { ...total, percentDone: getPercentDone(total.done, total.totalCount) }
+    });
+    return;
+  }
+
+  const width = Math.max(5, ...plans.map(({ relativePath }) => relativePath.length));
+  const formatRow = (name: string, done: number, count: number, active: number, blocked: number) => {
+    const extras = [
+      active > 0 ? `${active} in progress` : '',
+      blocked > 0 ? `${blocked} blocked` : ''
+    ].filter(Boolean).join(' · ');
+    return `${name.padEnd(width)}  ${`${done}/${count}`.padStart(7)} done (${getPercentDone(done, count)}%)${extras ? `  ${extras}` : ''}`;
+  };
+
+  plans.forEach(({ relativePath, plan }) => {
+    const { done, active, blocked } = plan.categoryCount;
+    writeLine(formatRow(relativePath, done, plan.totalCount, active, blocked));
+  });
+  writeLine(formatRow('Total', total.done, total.totalCount, total.active, total.blocked));
+}
+
+/**
+ * Prints tasks in the requested states with their heading path
+ */
+function printList(plans: LoadedPlan[], states: string[], json: boolean): void {
+  const tasks: ListedTask[] = [];
+  const markers: Map<string, string> = new Map();
+
+  plans.forEach(({ relativePath, plan }) => {
+    plan.states.forEach(state => markers.set(state.id, state.marker));
+
+    const visit = (items: HierarchyItem[], headingPath: string[]) => {
+      for (const item of items) {
+        if (item.type === ItemType.Task && item.state && states.includes(item.state)) {
+          tasks.push({
+            file: relativePath,
+            line: item.line + 1,
+            state: item.state,
+            text: item.text,
+            headingPath,
+            ...(item.assignees && { assignees: item.assignees }),
+            ...(item.tags && { tags: item.tags }),
+            ...(item.due && { due: item.due })
+          });
+        }
+
+        const childPath = item.type === ItemType.Heading ? [...headingPath, item.text] : headingPath;
+        visit(item.children, childPath);
+      }
+    };
+    visit(plan.tasks, []);
+  });
+
+  if (json) {
+    writeJson({ tasks });
+    return;
+  }
+
+  tasks.forEach(task => {
+    const context = task.headingPath.length > 0 ? `  (${task.headingPath.join(' > ')})` : '';
+    writeLine(`${task.file}:${task.line}  [${markers.get(task.state)}] ${task.text}${context}`);
+  });
+}
+
+/**
+ * Evaluates thresholds and prints failures
+ * @returns true if every check passed
+ */
+function printCheck(plans: LoadedPlan[], rules: CheckRule[], json: boolean): boolean {
+  const failures: CheckFailure[] = [];
+
+  for (const rule of rules) {
+    const matcher = rule.files ? globToRegExp(rule.files) : undefined;
+
+    plans
+      .filter(({ relativePath }) => !matcher || matcher.test(relativePath))
+      .forEach(({ relativePath, plan }) => {
+        evaluateRule(plan, rule).forEach(message => failures.push({ file: relativePath, message }));
+      });
+  }
+
+  const passed = failures.length === 0;
+
+  if (json) {
+    writeJson({ passed, plans: plans.length, rules: rules.length, failures });
+  } else if (rules.length === 0) {
+    writeLine('No checks configured (add "checks" to .codr/task-planner.json or pass --max-blocked etc.)');
+  } else if (passed) {
+    writeLine(`✓ All checks passed (${plans.length} plans, ${rules.length} rules)`);
+  } else {
+    failures.forEach(failure => writeLine(`✗ ${failure.file}: ${failure.message}`));
+  }
+
+  return passed;
+}
+
+/**
+ * Checks one plan against one rule
+ * @returns A message per threshold that failed
+ */
+function evaluateRule(plan: ParsedPlan, rule: CheckRule): string[] {
+  const messages: string[] = [];
+  const { blocked, active, open, done } = plan.categoryCount;
+
+  if (rule.maxBlocked !== undefined && blocked > rule.maxBlocked) {
+    messages.push(`${blocked} blocked tasks (max ${rule.maxBlocked})`);
+  }
+  if (rule.maxInProgress !== undefined && active > rule.maxInProgress) {
+    messages.push(`${active} in-progress tasks (max ${rule.maxInProgress})`);
+  }
+  if (rule.maxPending !== undefined && open > rule.maxPending) {
+    messages.push(`${open} pending tasks (max ${rule.maxPending})`);
+  }
+  if (rule.minPercentDone !== undefined && getPercentDone(done, plan.totalCount) < rule.minPercentDone) {
+    messages.push(`${getPercentDone(done, plan.totalCount)}% done (min ${rule.minPercentDone}%)`);
+  }
+
+  return messages;
+}
+
+/**
+ * Rules from the command line apply to every file; config rules keep their globs
+ */
+function getCheckRules(cliRule: CheckRule, config: TaskViewConfig): CheckRule[] {
+  const hasCliRule = Object.keys(cliRule).length > 0;
+  return [...(hasCliRule ? [cliRule] : []), ...(config.checks || [])];
+}
+
+function toPosixPath(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+function writeLine(text: string): void {
+  process.stdout.write(`${text}\n`);
+}
+
+function writeJson(value: unknown): void {
+  writeLine(JSON.stringify(value, null, 2));
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    process.stderr.write(`task-planner: ${error instanceof Error ? error.message : String(error)}\n`);
+    process.exitCode = EXIT_USAGE;
+  }
+);
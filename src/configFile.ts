@@ -0,0 +1,59 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { TaskViewConfig, DEFAULT_CONFIG } from './types';
+import { isValidState } from './taskStates';
+
+/**
+ * Plain-Node helpers for .codr/task-planner.json
+ * Kept free of the vscode API so the CLI can share them with ConfigManager.
+ */
+
+const CONFIG_DIR = '.codr';
+const CONFIG_FILE = 'task-planner.json';
+
+/**
+ * Gets the config file path for a folder
+ * @param folderPath Workspace (or repository) root folder
+ */
+export function getConfigPath(folderPath: string): string {
+  return path.join(folderPath, CONFIG_DIR, CONFIG_FILE);
+}
+
+/**
+ * Validates a parsed config and fills in settings added after the file was created
+ * @param config Parsed JSON content
+ * @returns Complete config, or defaults if the structure is invalid
+ */
+export function normalizeConfig(config: Partial<TaskViewConfig>): TaskViewConfig {
+  // Validate config structure
+  if (!config || !config.exclusions || !Array.isArray(config.exclusions)) {
+    console.warn('Invalid config structure, using defaults');
+    return DEFAULT_CONFIG;
+  }
+
+  return {
+    ...config,
+    exclusions: config.exclusions,
+    include: Array.isArray(config.include) && config.include.length > 0
+      ? config.include
+      : DEFAULT_CONFIG.include,
+    caseInsensitive: config.caseInsensitive === true,
+    ...(Array.isArray(config.states) && { states: config.states.filter(isValidState) })
+  };
+}
+
+/**
+ * Reads a folder's config without creating it
+ * @param folderPath Workspace (or repository) root folder
+ * @returns Folder config, or defaults if the file is missing or unreadable
+ */
+export async function readConfigFile(folderPath: string): Promise<TaskViewConfig> {
+  const configPath = getConfigPath(folderPath);
+
+  if (!fs.existsSync(configPath)) {
+    return DEFAULT_CONFIG;
+  }
+
+  const content = await fs.promises.readFile(configPath, 'utf-8');
+  return normalizeConfig(JSON.parse(content));
+}
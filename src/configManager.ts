@@ -2,24 +2,18 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import { TaskViewConfig, DEFAULT_CONFIG } from './types';
+import { getConfigPath, normalizeConfig } from './configFile';
 
 /**
  * Manages reading and writing the .codr/task-planner.json configuration file
  */
 export class ConfigManager {
-  private static readonly CONFIG_DIR = '.codr';
-  private static readonly CONFIG_FILE = 'task-planner.json';
-
   private workspaceFolder: vscode.WorkspaceFolder;
   private configPath: string;
 
   constructor(workspaceFolder: vscode.WorkspaceFolder) {
     this.workspaceFolder = workspaceFolder;
-    this.configPath = path.join(
-      workspaceFolder.uri.fsPath,
-      ConfigManager.CONFIG_DIR,
-      ConfigManager.CONFIG_FILE
-    );
+    this.configPath = getConfigPath(workspaceFolder.uri.fsPath);
   }
 
   /**
@@ -36,15 +30,7 @@ export class ConfigManager {
 
       // Read and parse config file
       const content = await fs.promises.readFile(this.configPath, 'utf-8');
-      const config = JSON.parse(content) as TaskViewConfig;
-
-      // Validate config structure
-      if (!config.exclusions || !Array.isArray(config.exclusions)) {
-        console.warn('Invalid config structure, using defaults');
-        return DEFAULT_CONFIG;
-      }
-
-      return config;
+      return normalizeConfig(JSON.parse(content));
     } catch (error) {
       console.error('Error reading config:', error);
       return DEFAULT_CONFIG;
@@ -1,11 +1,27 @@
 import * as vscode from 'vscode';
 import { PlanMonitorProvider } from './planMonitorProvider';
+import { PlanWatcher } from './planWatcher';
+import { PlanCache } from './planCache';
+import { PlanCodeLensProvider, markSectionDone } from './planCodeLensProvider';
+import { PlanDecorationManager } from './planDecorations';
+import { PlanStatusBar } from './planStatusBar';
+import { PlanDiagnosticManager, PlanQuickFixProvider } from './planDiagnostics';
+import { ParentStatePropagator } from './parentStatePropagator';
+import { PlanCommands } from './planCommands';
+import { PlanTreeProvider } from './planTreeProvider';
+import { PlanBoardManager } from './planBoardPanel';
+import { PlanHistoryRecorder } from './planHistory';
+import { PlanHistoryPanel } from './planHistoryPanel';
+import { insertTaskAnchors } from './taskEditor';
+import { collectTasks } from './planParser';
+import { PlanApi } from './planApi';
+import { TaskPlannerApi } from './types';
 
 /**
  * Extension activation function
  * Called when extension is activated
  */
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): TaskPlannerApi {
   // Create output channel for logging
   const outputChannel = vscode.window.createOutputChannel('Plan Monitor');
   outputChannel.appendLine('═════════════════════════════════════════');
@@ -17,7 +33,9 @@ export function activate(context: vscode.ExtensionContext) {
 
   try {
     outputChannel.appendLine('\n[STEP 1] Creating PlanMonitorProvider...');
-    const provider = new PlanMonitorProvider(context.extensionUri, outputChannel);
+    // One cache shared by the sidebar, CodeLens and decorations; states come from each folder's config
+    const cache: PlanCache = new PlanCache(outputChannel, filePath => provider.getStates(vscode.Uri.file(filePath)));
+    const provider = new PlanMonitorProvider(context.extensionUri, outputChannel, cache, context.workspaceState);
     outputChannel.appendLine('[STEP 1] ✓ Provider created successfully');
 
     outputChannel.appendLine(`\n[STEP 2] Registering WebviewViewProvider with ID: "${PlanMonitorProvider.viewType}"...`);
@@ -36,40 +54,165 @@ export function activate(context: vscode.ExtensionContext) {
     outputChannel.appendLine(`[STEP 2]   - View Type: ${PlanMonitorProvider.viewType}`);
     outputChannel.appendLine(`[STEP 2]   - Retain Context: true`);
 
-    // Get workspace folder for file watching
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-
-    if (workspaceFolder) {
-      outputChannel.appendLine(`\n[STEP 3] Setting up FileSystemWatcher...`);
-      outputChannel.appendLine(`[STEP 3]   - Workspace: ${workspaceFolder.uri.fsPath}`);
-
-      // Create FileSystemWatcher for PLAN*.md files
-      const watcher = vscode.workspace.createFileSystemWatcher(
-        new vscode.RelativePattern(workspaceFolder, '**/PLAN*.md')
-      );
-
-      // Hook up watcher events
-      watcher.onDidChange(() => {
-        outputChannel.appendLine('[FileWatcher] PLAN file changed, refreshing view...');
-        provider.refreshView();
-      });
-
-      watcher.onDidCreate(() => {
-        outputChannel.appendLine('[FileWatcher] PLAN file created, refreshing view...');
-        provider.refreshView();
-      });
-
-      watcher.onDidDelete(() => {
-        outputChannel.appendLine('[FileWatcher] PLAN file deleted, refreshing view...');
-        provider.refreshView();
-      });
-
-      // Add watcher to subscriptions for proper cleanup
-      context.subscriptions.push(watcher);
-      outputChannel.appendLine('[STEP 3] ✓ FileSystemWatcher configured');
-    } else {
-      outputChannel.appendLine('\n[STEP 3] ⚠ No workspace folder found - FileSystemWatcher skipped');
-    }
+    outputChannel.appendLine(`\n[STEP 3] Setting up FileSystemWatchers...`);
+
+    // Watchers per workspace folder, built from each folder's include patterns
+    const planWatcher = new PlanWatcher(outputChannel);
+    const rebuildWatchers = () => planWatcher.rebuild(folder => provider.getFilePatterns(folder));
+    rebuildWatchers();
+
+    // Every saved change of progress is appended to .codr/task-history.jsonl
+    const historyRecorder = new PlanHistoryRecorder(
+      planWatcher,
+      document => provider.isPlanDocument(document),
+      filePath => provider.getStates(vscode.Uri.file(filePath)),
+      outputChannel
+    );
+
+    planWatcher.onDidChange(() => {
+      provider.refreshView();
+    });
+
+    // Config edited on disk (or through the settings screen)
+    planWatcher.onDidChangeConfig(() => {
+      provider.reloadConfigs();
+    });
+
+    // Patterns may have changed - watch the new ones
+    const configListener = provider.onDidChangeConfig(rebuildWatchers);
+
+    // Pick up folders added to or removed from the workspace
+    const foldersListener = vscode.workspace.onDidChangeWorkspaceFolders(event => {
+      outputChannel.appendLine(`[Workspace] Folders changed: +${event.added.length} -${event.removed.length}`);
+      rebuildWatchers();
+      provider.reloadConfigs();
+    });
+
+    // Re-parse from the editor buffer while typing, and when unsaved edits are discarded
+    const documentListeners = [
+      vscode.workspace.onDidChangeTextDocument(event => {
+        if (event.contentChanges.length > 0) {
+          provider.scheduleDocumentRefresh(event.document.uri);
+        }
+      }),
+      vscode.workspace.onDidCloseTextDocument(document => {
+        provider.scheduleDocumentRefresh(document.uri);
+      }),
+      // Optionally anchor new tasks on save, once the line is no longer being typed
+      vscode.workspace.onDidSaveTextDocument(async document => {
+        if (!provider.getConfig(document.uri).autoAnchors || !provider.isPlanDocument(document)) {
+          return;
+        }
+
+        try {
+          const plan = await cache.load(document.uri.fsPath);
+          const inserted = await insertTaskAnchors(document.uri, collectTasks(plan.tasks));
+          if (inserted > 0) {
+            outputChannel.appendLine(`[Anchors] Inserted ${inserted} task anchors in ${document.uri.fsPath}`);
+          }
+        } catch (error) {
+          outputChannel.appendLine(`[Anchors] ERROR inserting anchors: ${error}`);
+        }
+      })
+    ];
+
+    // Add watcher to subscriptions for proper cleanup
+    context.subscriptions.push(planWatcher, configListener, foldersListener, ...documentListeners);
+    outputChannel.appendLine(`[STEP 3] ✓ FileSystemWatchers configured for ${vscode.workspace.workspaceFolders?.length || 0} folder(s)`);
+
+    outputChannel.appendLine('\n[STEP 4] Registering editor CodeLens and decorations...');
+
+    const isPlanDocument = (document: vscode.TextDocument) => provider.isPlanDocument(document);
+    const codeLensProvider = new PlanCodeLensProvider(cache, isPlanDocument);
+    const decorations = new PlanDecorationManager(cache, isPlanDocument, outputChannel);
+    decorations.updateAll();
+
+    // Include patterns decide which editors count as plan files
+    const editorConfigListener = provider.onDidChangeConfig(() => {
+      codeLensProvider.refresh();
+      decorations.updateAll();
+    });
+
+    context.subscriptions.push(
+      vscode.languages.registerCodeLensProvider({ language: 'markdown' }, codeLensProvider),
+      vscode.commands.registerCommand(
+        PlanCodeLensProvider.markSectionDoneCommand,
+        async (uri: vscode.Uri, headingId: string) => {
+          try {
+            await markSectionDone(cache, uri, headingId);
+          } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to mark section done: ${errorMsg}`);
+          }
+        }
+      ),
+      decorations,
+      editorConfigListener
+    );
+    outputChannel.appendLine('[STEP 4] ✓ CodeLens and decorations registered');
+
+    outputChannel.appendLine('\n[STEP 5] Creating status bar item...');
+    const statusBar = new PlanStatusBar(cache, provider);
+    statusBar.update();
+    context.subscriptions.push(statusBar);
+    outputChannel.appendLine('[STEP 5] ✓ Status bar item created');
+
+    outputChannel.appendLine('\n[STEP 6] Registering plan diagnostics...');
+    const diagnostics = new PlanDiagnosticManager(cache, isPlanDocument, outputChannel);
+    diagnostics.updateAll();
+
+    context.subscriptions.push(
+      diagnostics,
+      provider.onDidChangeConfig(() => diagnostics.updateAll()),
+      vscode.languages.registerCodeActionsProvider(
+        { language: 'markdown' },
+        new PlanQuickFixProvider(cache),
+        { providedCodeActionKinds: PlanQuickFixProvider.providedCodeActionKinds }
+      )
+    );
+    outputChannel.appendLine('[STEP 6] ✓ Diagnostics and quick fixes registered');
+
+    outputChannel.appendLine('\n[STEP 7] Setting up parent state propagation...');
+    const propagator = new ParentStatePropagator(
+      cache,
+      document => provider.getConfig(document.uri).propagateParentState === true && provider.isPlanDocument(document),
+      outputChannel
+    );
+    context.subscriptions.push(propagator);
+    outputChannel.appendLine('[STEP 7] ✓ Parent state propagation ready (opt-in per folder)');
+
+    outputChannel.appendLine('\n[STEP 8] Registering commands...');
+    context.subscriptions.push(new PlanCommands(cache, provider, outputChannel));
+    outputChannel.appendLine('[STEP 8] ✓ Commands registered');
+
+    outputChannel.appendLine(`\n[STEP 9] Registering TreeDataProvider with ID: "${PlanTreeProvider.viewType}"...`);
+    // Shown instead of the webview when "taskPlanner.view" is "tree"
+    const treeProvider = new PlanTreeProvider(cache, provider, outputChannel);
+    context.subscriptions.push(
+      treeProvider,
+      vscode.window.createTreeView(PlanTreeProvider.viewType, {
+        treeDataProvider: treeProvider,
+        showCollapseAll: true
+      })
+    );
+    outputChannel.appendLine('[STEP 9] ✓ Tree view registered');
+
+    outputChannel.appendLine('\n[STEP 10] Registering Kanban board...');
+    // Boards refresh from the same watcher events and cache as the sidebar
+    context.subscriptions.push(new PlanBoardManager(context.extensionUri, cache, provider, outputChannel));
+    outputChannel.appendLine('[STEP 10] ✓ Board command registered');
+
+    outputChannel.appendLine('\n[STEP 11] Registering progress history...');
+    context.subscriptions.push(
+      historyRecorder,
+      new PlanHistoryPanel(context.extensionUri, cache, provider, historyRecorder, outputChannel)
+    );
+    outputChannel.appendLine('[STEP 11] ✓ History recorder and chart registered');
+
+    outputChannel.appendLine('\n[STEP 12] Creating extension API...');
+    const planApi = new PlanApi(provider, cache, planWatcher);
+    context.subscriptions.push(planApi);
+    outputChannel.appendLine('[STEP 12] ✓ API ready');
 
     outputChannel.appendLine('\n═════════════════════════════════════════');
     outputChannel.appendLine('✓ Plan Monitor Extension ACTIVATED');
@@ -81,6 +224,9 @@ export function activate(context: vscode.ExtensionContext) {
     // Show output channel automatically to help with debugging
     outputChannel.show(true);
 
+    // Other extensions get the plan model from activate()
+    return planApi;
+
   } catch (error) {
     outputChannel.appendLine('\n✗✗✗ ACTIVATION FAILED ✗✗✗');
     outputChannel.appendLine(`Error: ${error}`);
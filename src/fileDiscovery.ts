@@ -1,14 +1,17 @@
 import * as vscode from 'vscode';
+import { DEFAULT_CONFIG } from './types';
 
 /**
- * Finds all PLAN*.md files in the workspace
+ * Finds all plan files in the workspace
  * @param workspaceFolder The workspace folder to search in
  * @param exclusions Additional patterns to exclude (from config)
+ * @param patterns Glob patterns that identify plan files (from config)
  * @returns Promise resolving to array of file URIs sorted alphabetically
  */
 export async function findPlanFiles(
   workspaceFolder?: vscode.WorkspaceFolder,
-  exclusions: string[] = []
+  exclusions: string[] = [],
+  patterns: string[] = DEFAULT_CONFIG.include
 ): Promise<vscode.Uri[]> {
   try {
     // If no workspace is open, return empty array
@@ -24,21 +27,25 @@ export async function findPlanFiles(
       ? `{${exclusions.join(',')}}`
       : '**/node_modules/**';
 
-    // Search for PLAN*.md files with combined exclusions
-    const files = await vscode.workspace.findFiles(
-      new vscode.RelativePattern(folder, '**/PLAN*.md'),
-      excludePattern
-    );
+    // Search each include pattern, dropping files matched by more than one
+    const found = new Map<string, vscode.Uri>();
+    for (const pattern of patterns) {
+      const files = await vscode.workspace.findFiles(
+        new vscode.RelativePattern(folder, pattern),
+        excludePattern
+      );
+      files.forEach(file => found.set(file.fsPath, file));
+    }
 
     // Sort alphabetically by filename
-    return files.sort((a, b) => {
+    return [...found.values()].sort((a, b) => {
       const aName = a.fsPath.split(/[/\\]/).pop() || '';
       const bName = b.fsPath.split(/[/\\]/).pop() || '';
       return aName.localeCompare(bName);
     });
   } catch (error) {
     // Log error but don't throw - return empty array on failure
-    console.error('Error finding PLAN files:', error);
+    console.error('Error finding plan files:', error);
     return [];
   }
 }
@@ -56,3 +63,20 @@ export function getWorkspaceRelativePath(uri: vscode.Uri): string {
     return uri.fsPath;
   }
 }
+
+/**
+ * Checks whether a document matches any of a folder's plan file patterns
+ * @param document Document to test
+ * @param folder Workspace folder the patterns are relative to
+ * @param patterns Glob patterns that identify plan files
+ * @returns true if the document is a plan file
+ */
+export function matchesPlanPatterns(
+  document: vscode.TextDocument,
+  folder: vscode.WorkspaceFolder,
+  patterns: string[]
+): boolean {
+  return patterns.some(pattern =>
+    vscode.languages.match({ pattern: new vscode.RelativePattern(folder, pattern) }, document) > 0
+  );
+}
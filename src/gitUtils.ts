@@ -0,0 +1,90 @@
+import * as path from 'path';
+import { execFile } from 'child_process';
+
+/** Branch, tag or commit a plan can be compared with */
+export interface GitRef {
+  ref: string;             // Name passed to git, e.g. "main", "v1.2" or an abbreviated hash
+  kind: 'branch' | 'tag' | 'commit';
+  description?: string;    // Commit subject and date for commits
+}
+
+/** Commits listed in the ref picker, newest first */
+const RECENT_COMMIT_COUNT = 20;
+
+const MAX_BUFFER = 16 * 1024 * 1024;
+
+/**
+ * Reads a file as it was at a git ref (local `git show`)
+ * @param filePath Absolute path of the file in the working tree
+ * @param ref Branch, tag, commit or expression such as `HEAD~3`
+ * @returns File content, or undefined when the file didn't exist at that ref
+ * @throws When the folder isn't in a git repository or the ref is unknown
+ */
+export async function showFileAtRef(filePath: string, ref: string): Promise<string | undefined> {
+  // Typed refs go straight to git, where a leading "-" would be read as an option
+  if (!ref || ref.startsWith('-')) {
+    throw new Error(`Unknown git ref "${ref}"`);
+  }
+
+  try {
+    // "./name" is resolved against the working directory, wherever the repository root is
+    return await runGit(path.dirname(filePath), ['show', `${ref}:./${path.basename(filePath)}`]);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (/does not exist in|exists on disk, but not in/.test(message)) {
+      return undefined;
+    }
+    if (/not a git repository/i.test(message)) {
+      throw new Error('The plan is not in a git repository');
+    }
+    if (/invalid object name|unknown revision|bad revision/i.test(message)) {
+      throw new Error(`Unknown git ref "${ref}"`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Lists branches, tags and the recent commits that touched a file
+ * @param filePath Absolute path of the file in the working tree
+ */
+export async function listRefs(filePath: string): Promise<GitRef[]> {
+  const cwd = path.dirname(filePath);
+
+  const [names, log] = await Promise.all([
+    runGit(cwd, ['for-each-ref', '--format=%(refname)', 'refs/heads', 'refs/tags']),
+    runGit(cwd, ['log', `-n${RECENT_COMMIT_COUNT}`, '--format=%h%x09%s%x09%cr', '--', path.basename(filePath)])
+  ]);
+
+  const refs: GitRef[] = [];
+
+  for (const name of names.split('\n').filter(Boolean)) {
+    if (name.startsWith('refs/heads/')) {
+      refs.push({ ref: name.slice('refs/heads/'.length), kind: 'branch' });
+    } else if (name.startsWith('refs/tags/')) {
+      refs.push({ ref: name.slice('refs/tags/'.length), kind: 'tag' });
+    }
+  }
+
+  for (const line of log.split('\n').filter(Boolean)) {
+    const [hash, subject, date] = line.split('\t');
+    refs.push({ ref: hash, kind: 'commit', description: `${subject} · ${date}` });
+  }
+
+  return refs;
+}
+
+function runGit(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, maxBuffer: MAX_BUFFER, encoding: 'utf-8' }, (error, stdout, stderr) => {
+      if ((error as NodeJS.ErrnoException | null)?.code === 'ENOENT') {
+        reject(new Error('Git was not found on the PATH'));
+      } else if (error) {
+        reject(new Error(stderr.trim() || error.message));
+      } else {
+        resolve(stdout);
+      }
+    });
+  });
+}
@@ -0,0 +1,92 @@
+import { TaskViewConfig, DEFAULT_CONFIG } from './types';
+
+/**
+ * Rewrites a glob so letters match in either case (`PLAN` → `[pP][lL][aA][nN]`)
+ * Characters already inside a `[...]` class are left as they are.
+ * @param pattern Glob pattern
+ * @returns Case-insensitive glob pattern
+ */
+export function toCaseInsensitiveGlob(pattern: string): string {
+  let result = '';
+  let inClass = false;
+
+  for (const char of pattern) {
+    if (inClass) {
+      result += char;
+      if (char === ']') {
+        inClass = false;
+      }
+    } else if (char === '[') {
+      inClass = true;
+      result += char;
+    } else if (char.toLowerCase() !== char.toUpperCase()) {
+      result += `[${char.toLowerCase()}${char.toUpperCase()}]`;
+    } else {
+      result += char;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Gets the glob patterns that identify plan files for a config
+ * @param config Folder configuration
+ * @returns Include patterns, rewritten for case-insensitive matching if enabled
+ */
+export function getPlanFilePatterns(config: TaskViewConfig): string[] {
+  const patterns = config.include.length > 0 ? config.include : DEFAULT_CONFIG.include;
+  return config.caseInsensitive ? patterns.map(toCaseInsensitiveGlob) : patterns;
+}
+
+/**
+ * Converts a workspace glob to a regular expression over `/`-separated relative paths
+ * Supports `**`, `*`, `?`, `[...]` and `{a,b}` the way VS Code's findFiles does.
+ * @param pattern Glob pattern
+ * @returns Regular expression matching the whole path
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // "**/" matches zero or more folders, a trailing "**" matches anything
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const close = pattern.indexOf(']', i + 1);
+      if (close === -1) {
+        source += '\\[';
+      } else {
+        source += `[${pattern.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = close;
+      }
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
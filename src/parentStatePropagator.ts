@@ -0,0 +1,124 @@
+import * as vscode from 'vscode';
+import { PlanCache } from './planCache';
+import { collectTasks } from './planParser';
+import { getParentStateChanges, setTaskStates } from './taskEditor';
+import { ParsedPlan } from './types';
+
+/**
+ * Keeps parent checkboxes in sync with their subtasks (opt-in per folder)
+ *
+ * Reacts to every change of a plan document, whether it came from the sidebar
+ * or was typed in the editor. Only parents whose subtasks changed state since
+ * the previous parse are rewritten, so a parent set by hand stays as it is
+ * until one of its subtasks changes again.
+ */
+export class ParentStatePropagator implements vscode.Disposable {
+  private static readonly UPDATE_DELAY = 300; // ms after the last keystroke
+
+  private readonly _cache: PlanCache;
+  private readonly _isEnabled: (document: vscode.TextDocument) => boolean;
+  private readonly _outputChannel: vscode.OutputChannel;
+  private readonly _knownStates: Map<string, Map<string, string>> = new Map(); // fsPath → task id → state
+  private readonly _updateTimers: Map<string, NodeJS.Timeout> = new Map();
+  private readonly _disposables: vscode.Disposable[] = [];
+
+  constructor(
+    cache: PlanCache,
+    isEnabled: (document: vscode.TextDocument) => boolean,
+    outputChannel: vscode.OutputChannel
+  ) {
+    this._cache = cache;
+    this._isEnabled = isEnabled;
+    this._outputChannel = outputChannel;
+
+    this._disposables.push(
+      vscode.workspace.onDidOpenTextDocument(document => this._remember(document)),
+      vscode.workspace.onDidChangeTextDocument(event => {
+        if (event.contentChanges.length > 0) {
+          this._scheduleUpdate(event.document);
+        }
+      }),
+      vscode.workspace.onDidCloseTextDocument(document => this._knownStates.delete(document.uri.fsPath))
+    );
+
+    vscode.workspace.textDocuments.forEach(document => this._remember(document));
+  }
+
+  dispose(): void {
+    this._updateTimers.forEach(timer => clearTimeout(timer));
+    this._disposables.forEach(disposable => disposable.dispose());
+  }
+
+  /**
+   * Record the task states a document starts out with
+   */
+  private async _remember(document: vscode.TextDocument): Promise<void> {
+    if (document.uri.scheme !== 'file' || !this._isEnabled(document)) {
+      return;
+    }
+
+    try {
+      await this._readStates(document);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this._outputChannel.appendLine(`[Propagation] ERROR reading task states: ${errorMsg}`);
+    }
+  }
+
+  private _scheduleUpdate(document: vscode.TextDocument): void {
+    const key = document.uri.fsPath;
+    clearTimeout(this._updateTimers.get(key));
+
+    this._updateTimers.set(key, setTimeout(() => {
+      this._updateTimers.delete(key);
+      this._propagate(document);
+    }, ParentStatePropagator.UPDATE_DELAY));
+  }
+
+  private async _propagate(document: vscode.TextDocument): Promise<void> {
+    if (document.uri.scheme !== 'file' || !this._isEnabled(document)) {
+      return;
+    }
+
+    try {
+      const previous = this._knownStates.get(document.uri.fsPath);
+      const { plan, states } = await this._readStates(document);
+
+      if (!previous) {
+        return;
+      }
+
+      const changedIds = new Set(
+        Array.from(states).filter(([id, state]) => previous.get(id) !== state).map(([id]) => id)
+      );
+      if (changedIds.size === 0) {
+        return;
+      }
+
+      const changes = getParentStateChanges(plan.tasks, plan.states, changedIds);
+      if (changes.length > 0) {
+        this._outputChannel.appendLine(`[Propagation] Updating ${changes.length} parent task(s) in ${document.uri.fsPath}`);
+        await setTaskStates(document.uri, changes, plan.states);
+      }
+    } catch (error) {
+      this._outputChannel.appendLine(`[Propagation] ERROR updating parent tasks: ${error}`);
+    }
+  }
+
+  /**
+   * Parse the document and record its task states for the next comparison
+   */
+  private async _readStates(document: vscode.TextDocument): Promise<{ plan: ParsedPlan; states: Map<string, string> }> {
+    const plan = await this._cache.load(document.uri.fsPath);
+    const states: Map<string, string> = new Map();
+
+    for (const task of collectTasks(plan.tasks)) {
+      if (task.state) {
+        states.set(task.id, task.state);
+      }
+    }
+
+    this._knownStates.set(document.uri.fsPath, states);
+    return { plan, states };
+  }
+}
@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+import { PlanCache } from './planCache';
+import { PlanMonitorProvider } from './planMonitorProvider';
+import { PlanWatcher } from './planWatcher';
+import { collectTasks, findItemById } from './planParser';
+import { setTaskStates } from './taskEditor';
+import { getStateDefinition } from './taskStates';
+import { HierarchyItem, ItemType, ParsedPlan, TaskPlannerApi } from './types';
+
+/**
+ * The API returned from `activate`
+ *
+ * Reads go through the shared cache, so other extensions see what the sidebar
+ * sees, but every plan handed out is a copy: callers can't change cached state.
+ * Change events come from the file watcher and from edits in open plans, so
+ * they fire for plans that aren't shown anywhere.
+ */
+export class PlanApi implements TaskPlannerApi, vscode.Disposable {
+  private static readonly UPDATE_DELAY = 300; // ms after the last keystroke
+
+  private readonly _provider: PlanMonitorProvider;
+  private readonly _cache: PlanCache;
+  private readonly _onDidChangePlan = new vscode.EventEmitter<ParsedPlan>();
+  private readonly _updateTimers: Map<string, NodeJS.Timeout> = new Map();
+  private readonly _disposables: vscode.Disposable[] = [];
+
+  public readonly onDidChangePlan = this._onDidChangePlan.event;
+
+  /**
+   * @param provider Provider that discovers plan files
+   * @param cache Cache shared with the sidebar and editor features
+   * @param watcher Watcher reporting plan files changed on disk
+   */
+  constructor(provider: PlanMonitorProvider, cache: PlanCache, watcher: PlanWatcher) {
+    this._provider = provider;
+    this._cache = cache;
+
+    this._disposables.push(
+      watcher.onDidChange(uri => this._scheduleUpdate(uri)),
+      vscode.workspace.onDidChangeTextDocument(event => {
+        if (event.contentChanges.length > 0 && provider.isPlanDocument(event.document)) {
+          this._scheduleUpdate(event.document.uri);
+        }
+      }),
+      // Closing a document with unsaved edits reverts the plan to the file on disk
+      vscode.workspace.onDidCloseTextDocument(document => {
+        if (document.isDirty && provider.isPlanDocument(document)) {
+          this._scheduleUpdate(document.uri);
+        }
+      })
+    );
+  }
+
+  dispose(): void {
+    this._updateTimers.forEach(timer => clearTimeout(timer));
+    this._disposables.forEach(disposable => disposable.dispose());
+    this._onDidChangePlan.dispose();
+  }
+
+  async getPlanFiles(): Promise<vscode.Uri[]> {
+    return [...await this._provider.getPlanFiles()];
+  }
+
+  async getPlan(uri: vscode.Uri): Promise<ParsedPlan> {
+    return clonePlan(await this._cache.load(uri.fsPath));
+  }
+
+  async getTasksByState(uri: vscode.Uri, ...states: string[]): Promise<HierarchyItem[]> {
+    const plan = await this.getPlan(uri);
+    return collectTasks(plan.tasks).filter(task => task.state !== undefined && states.includes(task.state));
+  }
+
+  async setTaskState(uri: vscode.Uri, id: string, state: string): Promise<boolean> {
+    const plan = await this._cache.load(uri.fsPath);
+    const item = findItemById(plan.tasks, id);
+
+    if (!item || item.type !== ItemType.Task || !item.checkbox) {
+      throw new Error(`Task "${id}" not found in ${uri.fsPath}`);
+    }
+    if (!getStateDefinition(plan.states, state)) {
+      throw new Error(`Unknown state "${state}"`);
+    }
+
+    return setTaskStates(uri, [{ checkbox: item.checkbox, state }], plan.states);
+  }
+
+  /**
+   * Re-read a plan once edits settle and tell subscribers if it is still there
+   */
+  private _scheduleUpdate(uri: vscode.Uri): void {
+    const existing = this._updateTimers.get(uri.fsPath);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    this._updateTimers.set(uri.fsPath, setTimeout(async () => {
+      this._updateTimers.delete(uri.fsPath);
+
+      try {
+        this._onDidChangePlan.fire(await this.getPlan(uri));
+      } catch {
+        // Deleted plans have nothing to report
+      }
+    }, PlanApi.UPDATE_DELAY));
+  }
+}
+
+/**
+ * Deep copy of a plan; parsed plans hold plain data only
+ */
+function clonePlan(plan: ParsedPlan): ParsedPlan {
+  return JSON.parse(JSON.stringify(plan));
+}
@@ -0,0 +1,324 @@
+import * as vscode from 'vscode';
+import { PlanCache } from './planCache';
+import { PlanMonitorProvider } from './planMonitorProvider';
+import { findItemById } from './planParser';
+import { getWorkspaceRelativePath } from './fileDiscovery';
+import { PlanTreeNode } from './planTreeProvider';
+import { setTaskStates } from './taskEditor';
+import { getNonce } from './webviewUtils';
+import {
+  BoardCard,
+  HierarchyItem,
+  ItemType,
+  MessageType,
+  NavigateMessage,
+  ParsedPlan,
+  SetTaskStateMessage,
+  UpdateBoardMessage
+} from './types';
+
+/** Quick pick entry for the plan to open as a board */
+interface BoardPickItem extends vscode.QuickPickItem {
+  fileUri: vscode.Uri;
+}
+
+/**
+ * Kanban boards of plan files, opened as editor tabs
+ *
+ * Each board has a column per state and a card per task; dropping a card on
+ * another column rewrites its checkbox. One board per plan file.
+ */
+export class PlanBoardManager implements vscode.Disposable {
+  public static readonly viewType = 'taskPlanner.board';
+  public static readonly openBoardCommand = 'taskPlanner.openBoard';
+
+  private static readonly UPDATE_DELAY = 300; // ms after the last keystroke
+
+  private readonly _extensionUri: vscode.Uri;
+  private readonly _cache: PlanCache;
+  private readonly _provider: PlanMonitorProvider;
+  private readonly _outputChannel: vscode.OutputChannel;
+  private readonly _panels: Map<string, vscode.WebviewPanel> = new Map(); // fsPath → board
+  private readonly _updateTimers: Map<string, NodeJS.Timeout> = new Map();
+  private readonly _disposables: vscode.Disposable[] = [];
+
+  constructor(
+    extensionUri: vscode.Uri,
+    cache: PlanCache,
+    provider: PlanMonitorProvider,
+    outputChannel: vscode.OutputChannel
+  ) {
+    this._extensionUri = extensionUri;
+    this._cache = cache;
+    this._provider = provider;
+    this._outputChannel = outputChannel;
+
+    this._disposables.push(
+      vscode.commands.registerCommand(PlanBoardManager.openBoardCommand, (target?: vscode.Uri | PlanTreeNode) => {
+        // Editor title passes the document's uri, the tree passes its plan node
+        this._openBoard(target instanceof vscode.Uri ? target : target?.fileUri);
+      }),
+      provider.onDidRefresh(() => this.updateAll()),
+      provider.onDidChangeConfig(() => this.updateAll()),
+      vscode.workspace.onDidChangeTextDocument(event => {
+        if (event.contentChanges.length > 0 && this._panels.has(event.document.uri.fsPath)) {
+          this._scheduleUpdate(event.document.uri);
+        }
+      })
+    );
+  }
+
+  dispose(): void {
+    this._updateTimers.forEach(timer => clearTimeout(timer));
+    this._panels.forEach(panel => panel.dispose());
+    this._disposables.forEach(disposable => disposable.dispose());
+  }
+
+  /**
+   * Redraw every open board from the cache
+   */
+  updateAll(): void {
+    this._panels.forEach((_panel, fsPath) => this._update(vscode.Uri.file(fsPath)));
+  }
+
+  /**
+   * Open the board of a plan: the given one, the one in the active editor,
+   * the one selected in the sidebar, or one picked from the list
+   */
+  private async _openBoard(uri?: vscode.Uri): Promise<void> {
+    try {
+      const editor = vscode.window.activeTextEditor;
+      const fileUri = uri
+        ?? (editor && this._provider.isPlanDocument(editor.document) ? editor.document.uri : undefined)
+        ?? this._provider.currentFile
+        ?? await this._pickPlanFile();
+
+      if (!fileUri) {
+        return;
+      }
+
+      const existing = this._panels.get(fileUri.fsPath);
+      if (existing) {
+        existing.reveal();
+        return;
+      }
+
+      this._outputChannel.appendLine(`[Board] Opening board for ${fileUri.fsPath}`);
+      this._createPanel(fileUri);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this._outputChannel.appendLine(`[Board] ERROR opening board: ${errorMsg}`);
+      vscode.window.showErrorMessage(`Failed to open board: ${errorMsg}`);
+    }
+  }
+
+  private async _pickPlanFile(): Promise<vscode.Uri | undefined> {
+    const files = await this._provider.getPlanFiles();
+    const items: BoardPickItem[] = files.map(fileUri => ({
+      label: `$(checklist) ${getWorkspaceRelativePath(fileUri)}`,
+      fileUri
+    }));
+
+    const picked = await vscode.window.showQuickPick(items, {
+      title: 'Open Kanban Board',
+      placeHolder: files.length > 0 ? 'Plan to show as a board' : 'No plan files found'
+    });
+
+    return picked?.fileUri;
+  }
+
+  private _createPanel(fileUri: vscode.Uri): void {
+    const panel = vscode.window.createWebviewPanel(
+      PlanBoardManager.viewType,
+      getWorkspaceRelativePath(fileUri),
+      vscode.ViewColumn.Active,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        localResourceRoots: [
+          vscode.Uri.joinPath(this._extensionUri, 'webview'),
+          vscode.Uri.joinPath(this._extensionUri, 'node_modules', '@vscode/codicons', 'dist')
+        ]
+      }
+    );
+
+    panel.webview.html = this._getHtmlForWebview(panel.webview);
+    this._panels.set(fileUri.fsPath, panel);
+
+    // Both listeners go away with the panel
+    panel.webview.onDidReceiveMessage(message => this._handleMessage(fileUri, message));
+    panel.onDidDispose(() => {
+      clearTimeout(this._updateTimers.get(fileUri.fsPath));
+      this._updateTimers.delete(fileUri.fsPath);
+      this._panels.delete(fileUri.fsPath);
+    });
+  }
+
+  private async _handleMessage(fileUri: vscode.Uri, message: any): Promise<void> {
+    switch (message.type) {
+      case MessageType.BoardReady:
+        await this._update(fileUri);
+        break;
+
+      case MessageType.SetTaskState:
+        await this._setTaskState(fileUri, message as SetTaskStateMessage);
+        break;
+
+      case MessageType.NavigateToLine:
+        await this._navigateToLine(fileUri, message as NavigateMessage);
+        break;
+
+      default:
+        this._outputChannel.appendLine(`[Board] Unknown message type: ${message.type}`);
+    }
+  }
+
+  private _scheduleUpdate(fileUri: vscode.Uri): void {
+    const key = fileUri.fsPath;
+    clearTimeout(this._updateTimers.get(key));
+
+    this._updateTimers.set(key, setTimeout(() => {
+      this._updateTimers.delete(key);
+      this._update(fileUri);
+    }, PlanBoardManager.UPDATE_DELAY));
+  }
+
+  private async _update(fileUri: vscode.Uri): Promise<void> {
+    const panel = this._panels.get(fileUri.fsPath);
+    if (!panel) {
+      return;
+    }
+
+    try {
+      const plan = await this._cache.load(fileUri.fsPath);
+      const message: UpdateBoardMessage = {
+        type: MessageType.UpdateBoard,
+        filePath: plan.filePath,
+        title: plan.title,
+        states: plan.states,
+        cards: createBoardCards(plan)
+      };
+
+      panel.title = plan.title;
+      await panel.webview.postMessage(message);
+    } catch (error) {
+      // File may have been deleted between events
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this._outputChannel.appendLine(`[Board] ERROR updating board for ${fileUri.fsPath}: ${errorMsg}`);
+    }
+  }
+
+  /**
+   * Move a card to another column
+   * The task is looked up again by id, so a stale board never writes to the wrong line.
+   */
+  private async _setTaskState(fileUri: vscode.Uri, message: SetTaskStateMessage): Promise<void> {
+    try {
+      const plan = await this._cache.load(fileUri.fsPath);
+      const task = findItemById(plan.tasks, message.id);
+
+      if (!task || task.type !== ItemType.Task || !task.checkbox || !message.state) {
+        throw new Error('Task not found in plan');
+      }
+      if (task.state === message.state) {
+        return;
+      }
+
+      this._outputChannel.appendLine(`[Board] Setting task at line ${task.line} to ${message.state}`);
+      const applied = await setTaskStates(fileUri, [{ checkbox: task.checkbox, state: message.state }], plan.states);
+
+      if (!applied) {
+        throw new Error('Edit was rejected');
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this._outputChannel.appendLine(`[Board] ERROR setting task state: ${errorMsg}`);
+      vscode.window.showErrorMessage(`Failed to update task: ${errorMsg}`);
+
+      // Put the card back where the file says it is
+      await this._update(fileUri);
+    }
+  }
+
+  /**
+   * Open the task next to the board
+   */
+  private async _navigateToLine(fileUri: vscode.Uri, message: NavigateMessage): Promise<void> {
+    try {
+      await vscode.window.showTextDocument(fileUri, {
+        viewColumn: vscode.ViewColumn.Beside,
+        selection: new vscode.Range(message.line, 0, message.line, 0)
+      });
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this._outputChannel.appendLine(`[Board] ERROR navigating: ${errorMsg}`);
+      vscode.window.showErrorMessage(`Failed to open file: ${errorMsg}`);
+    }
+  }
+
+  private _getHtmlForWebview(webview: vscode.Webview): string {
+    const scriptUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(this._extensionUri, 'webview', 'board.js')
+    );
+    const styleUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(this._extensionUri, 'webview', 'board.css')
+    );
+    const codiconsUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(this._extensionUri, 'node_modules', '@vscode/codicons', 'dist', 'codicon.css')
+    );
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; font-src ${webview.cspSource}; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <link href="${codiconsUri}" rel="stylesheet">
+  <link href="${styleUri}" rel="stylesheet">
+  <title>Task Board</title>
+</head>
+<body>
+  <div id="board">
+    <div class="loading">Loading board...</div>
+  </div>
+  <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+  }
+}
+
+/**
+ * Flattens a plan into cards, each with the H2/H3 headings it sits under
+ * Deeper headings don't start a new group; subtasks keep their parent's text.
+ */
+function createBoardCards(plan: ParsedPlan): BoardCard[] {
+  const cards: BoardCard[] = [];
+
+  const visit = (items: HierarchyItem[], group: HierarchyItem[], parent?: HierarchyItem) => {
+    for (const item of items) {
+      if (item.type === ItemType.Heading) {
+        const path = group.filter(heading => heading.level < item.level);
+        visit(item.children, item.level === 2 || item.level === 3 ? [...path, item] : path);
+        continue;
+      }
+
+      cards.push({
+        id: item.id,
+        text: item.text,
+        state: item.state || '',
+        group: group.map(heading => heading.text),
+        parent: parent?.text,
+        line: item.line,
+        assignees: item.assignees,
+        tags: item.tags,
+        due: item.due,
+        priority: item.priority
+      });
+      visit(item.children, group, item);
+    }
+  };
+  visit(plan.tasks, []);
+
+  return cards;
+}
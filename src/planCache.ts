@@ -1,62 +1,93 @@
 import * as fs from 'fs/promises';
+import * as crypto from 'crypto';
 import * as vscode from 'vscode';
-import { CacheEntry, ParsedPlan } from './types';
+import { CacheEntry, ParsedPlan, StateDefinition, DEFAULT_STATES } from './types';
+import { parsePlan } from './planParser';
+import { rematchIds } from './taskIdentity';
 
 /**
- * Cache for parsed plan files using mtime-based invalidation
+ * Cache for parsed plan files using content-hash invalidation
+ *
+ * Keys on the text that was parsed rather than file mtime, so an open
+ * editor buffer with unsaved changes gets its own up-to-date entry. The
+ * states a file is parsed with are part of the key, so editing the state
+ * definitions re-parses the affected plans.
  */
 export class PlanCache {
   private cache: Map<string, CacheEntry> = new Map();
   private outputChannel: vscode.OutputChannel;
+  private getStates: (filePath: string) => StateDefinition[];
 
-  constructor(outputChannel: vscode.OutputChannel) {
+  /**
+   * @param outputChannel Channel for cache hit/miss logging
+   * @param getStates States to parse a file with (from its folder's config)
+   */
+  constructor(
+    outputChannel: vscode.OutputChannel,
+    getStates: (filePath: string) => StateDefinition[] = () => DEFAULT_STATES
+  ) {
     this.outputChannel = outputChannel;
+    this.getStates = getStates;
+  }
+
+  /**
+   * Returns the parsed plan for a file's current content, parsing only on cache miss
+   * @param filePath Path to the plan file
+   * @returns Parsed plan matching the open editor buffer, or the file on disk
+   */
+  async load(filePath: string): Promise<ParsedPlan> {
+    const content = await readPlanContent(filePath);
+    const cached = this.get(filePath, content);
+
+    if (cached) {
+      return cached;
+    }
+
+    const plan = parsePlan(content, filePath, this.getStates(filePath));
+    this.outputChannel.appendLine(`Parsed ${filePath}: ${plan.totalCount} tasks`);
+
+    // Edited items keep the id they had in the previous version
+    const previous = this.cache.get(filePath);
+    if (previous) {
+      rematchIds(plan.tasks, previous.parsed.tasks);
+    }
+
+    this.set(filePath, content, plan);
+    return plan;
   }
 
   /**
-   * Retrieves cached plan if file hasn't changed
+   * Retrieves cached plan if the content hasn't changed
    * @param filePath Path to the plan file
+   * @param content Current content of the file
    * @returns Cached ParsedPlan or null if cache miss
    */
-  async get(filePath: string): Promise<ParsedPlan | null> {
-    try {
-      // Check if file exists and get stats
-      const stats = await fs.stat(filePath);
-      const cached = this.cache.get(filePath);
-
-      // Cache hit - mtime matches
-      if (cached && cached.mtime === stats.mtimeMs) {
-        this.outputChannel.appendLine(`Cache hit: ${filePath}`);
-        return cached.parsed;
-      }
-
-      // Cache miss or invalidated
-      this.outputChannel.appendLine(`Cache miss: ${filePath}`);
-      return null;
-    } catch (error) {
-      // File not found or other error
-      this.outputChannel.appendLine(`Cache get error for ${filePath}: ${error}`);
-      return null;
+  get(filePath: string, content: string): ParsedPlan | null {
+    const cached = this.cache.get(filePath);
+
+    // Cache hit - content hash matches
+    if (cached && cached.hash === this.hashEntry(filePath, content)) {
+      this.outputChannel.appendLine(`Cache hit: ${filePath}`);
+      return cached.parsed;
     }
+
+    // Cache miss or invalidated
+    this.outputChannel.appendLine(`Cache miss: ${filePath}`);
+    return null;
   }
 
   /**
-   * Stores parsed plan in cache with current mtime
+   * Stores parsed plan in cache keyed by the hash of the parsed content
    * @param filePath Path to the plan file
+   * @param content Content the plan was parsed from
    * @param plan Parsed plan to cache
    */
-  async set(filePath: string, plan: ParsedPlan): Promise<void> {
-    try {
-      const stats = await fs.stat(filePath);
-      this.cache.set(filePath, {
-        mtime: stats.mtimeMs,
-        parsed: plan
-      });
-      this.outputChannel.appendLine(`Cache updated: ${filePath}`);
-    } catch (error) {
-      // Log warning but don't throw
-      this.outputChannel.appendLine(`Cache set warning for ${filePath}: ${error}`);
-    }
+  set(filePath: string, content: string, plan: ParsedPlan): void {
+    this.cache.set(filePath, {
+      hash: this.hashEntry(filePath, content),
+      parsed: plan
+    });
+    this.outputChannel.appendLine(`Cache updated: ${filePath}`);
   }
 
   /**
@@ -76,4 +107,33 @@ export class PlanCache {
     this.cache.clear();
     this.outputChannel.appendLine('Cache cleared');
   }
+
+  /**
+   * Hashes the content together with the states it is parsed with
+   */
+  private hashEntry(filePath: string, content: string): string {
+    return hashContent(`${JSON.stringify(this.getStates(filePath))}\u0000${content}`);
+  }
+}
+
+/**
+ * Reads a plan file, preferring the open editor buffer over the file on disk
+ * @param filePath Path to the plan file
+ * @returns Current text of the plan
+ */
+export async function readPlanContent(filePath: string): Promise<string> {
+  const document = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === filePath);
+
+  if (document) {
+    return document.getText();
+  }
+
+  return fs.readFile(filePath, 'utf-8');
+}
+
+/**
+ * Hashes file content for cache comparison
+ */
+function hashContent(content: string): string {
+  return crypto.createHash('sha1').update(content).digest('hex');
 }
@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+import { PlanCache } from './planCache';
+import { collectDescendantTasks, findItemById } from './planParser';
+import { CheckboxRange, HierarchyItem, ItemType, StateCategory, StateDefinition, TaskState } from './types';
+import { setTaskStates } from './taskEditor';
+import { countTaskCategories, getStateCategory, resolveBuiltInState } from './taskStates';
+
+/**
+ * Shows per-heading progress ("7/12 done · 1 blocked") above headings in plan files
+ */
+export class PlanCodeLensProvider implements vscode.CodeLensProvider {
+  public static readonly markSectionDoneCommand = 'taskPlanner.markSectionDone';
+
+  private readonly _cache: PlanCache;
+  private readonly _isPlanDocument: (document: vscode.TextDocument) => boolean;
+  private readonly _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+
+  public readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+  constructor(cache: PlanCache, isPlanDocument: (document: vscode.TextDocument) => boolean) {
+    this._cache = cache;
+    this._isPlanDocument = isPlanDocument;
+  }
+
+  /**
+   * Ask VS Code to request lenses again (e.g. after the config changed)
+   */
+  refresh(): void {
+    this._onDidChangeCodeLenses.fire();
+  }
+
+  async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+    if (!this._isPlanDocument(document)) {
+      return [];
+    }
+
+    const plan = await this._cache.load(document.uri.fsPath);
+    const lenses: vscode.CodeLens[] = [];
+
+    const visit = (items: HierarchyItem[]) => {
+      for (const item of items) {
+        if (item.type === ItemType.Heading) {
+          lenses.push(...this._createHeadingLenses(document, item, plan.states));
+        }
+        visit(item.children);
+      }
+    };
+    visit(plan.tasks);
+
+    return lenses;
+  }
+
+  /**
+   * Progress lens plus a "mark section done" action for one heading
+   */
+  private _createHeadingLenses(
+    document: vscode.TextDocument,
+    heading: HierarchyItem,
+    states: StateDefinition[]
+  ): vscode.CodeLens[] {
+    const tasks = collectDescendantTasks(heading);
+    if (tasks.length === 0) {
+      return [];
+    }
+
+    const counts = countTaskCategories(tasks, states);
+    const parts = [`${counts.done}/${tasks.length} done`];
+    if (counts.active > 0) parts.push(`${counts.active} in progress`);
+    if (counts.blocked > 0) parts.push(`${counts.blocked} blocked`);
+
+    const range = new vscode.Range(heading.line, 0, heading.line, 0);
+    const lenses = [
+      new vscode.CodeLens(range, { title: parts.join(' · '), command: '' })
+    ];
+
+    if (counts.done < tasks.length) {
+      lenses.push(new vscode.CodeLens(range, {
+        title: 'Mark section done',
+        command: PlanCodeLensProvider.markSectionDoneCommand,
+        arguments: [document.uri, heading.id]
+      }));
+    }
+
+    return lenses;
+  }
+}
+
+/**
+ * Marks every unfinished task under a heading as done
+ * The heading is looked up by id in the latest parse, so lines added above it
+ * after the lens was shown don't shift it to another section.
+ * @param cache Shared plan cache
+ * @param uri Plan file
+ * @param headingId Stable id of the heading
+ */
+export async function markSectionDone(cache: PlanCache, uri: vscode.Uri, headingId: string): Promise<void> {
+  const plan = await cache.load(uri.fsPath);
+
+  const heading = findItemById(plan.tasks, headingId);
+  if (!heading || heading.type !== ItemType.Heading) {
+    throw new Error('Section not found in plan');
+  }
+
+  const done = resolveBuiltInState(plan.states, TaskState.Done);
+  const changes = collectDescendantTasks(heading)
+    .filter((task): task is HierarchyItem & { checkbox: CheckboxRange } =>
+      !!task.checkbox && getStateCategory(plan.states, task.state) !== StateCategory.Done)
+    .map(task => ({ checkbox: task.checkbox, state: done }));
+
+  await setTaskStates(uri, changes, plan.states);
+}
@@ -0,0 +1,382 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PlanCache } from './planCache';
+import { PlanMonitorProvider } from './planMonitorProvider';
+import { collectTasks } from './planParser';
+import { getWorkspaceRelativePath } from './fileDiscovery';
+import { getTasksViewId } from './planTreeProvider';
+import { setTaskStates } from './taskEditor';
+import { getStateCategory, getStateDefinition, resolveBuiltInState } from './taskStates';
+import { EXPORT_FORMATS, ExportFormat, ExportedPlan } from './planExport';
+import { HierarchyItem, ItemType, ParsedPlan, StateCategory, TaskState } from './types';
+
+/** Context key set while the active editor shows a plan file (used by keybindings) */
+const PLAN_EDITOR_CONTEXT = 'taskPlanner.isPlanEditor';
+
+/** Quick pick entry for a task in any plan */
+interface TaskPickItem extends vscode.QuickPickItem {
+  filePath: string;
+  line: number;
+}
+
+/** Quick pick entry for an export format */
+interface FormatPickItem extends vscode.QuickPickItem {
+  format: ExportFormat;
+}
+
+/** Quick pick entry for a plan file; no file means the overview */
+interface PlanPickItem extends vscode.QuickPickItem {
+  fileUri?: vscode.Uri;
+}
+
+/**
+ * Command palette commands for moving around plans and changing tasks
+ */
+export class PlanCommands implements vscode.Disposable {
+  public static readonly goToTaskCommand = 'taskPlanner.goToTask';
+  public static readonly nextPendingTaskCommand = 'taskPlanner.nextPendingTask';
+  public static readonly nextInProgressTaskCommand = 'taskPlanner.nextInProgressTask';
+  public static readonly markDoneCommand = 'taskPlanner.markTaskDone';
+  public static readonly markInProgressCommand = 'taskPlanner.markTaskInProgress';
+  public static readonly markBlockedCommand = 'taskPlanner.markTaskBlocked';
+  public static readonly refreshCommand = 'taskPlanner.refresh';
+  public static readonly selectPlanFileCommand = 'taskPlanner.selectPlanFile';
+  public static readonly showChangesSinceCommand = 'taskPlanner.showChangesSince';
+  public static readonly exportPlanCommand = 'taskPlanner.exportPlan';
+
+  private readonly _cache: PlanCache;
+  private readonly _provider: PlanMonitorProvider;
+  private readonly _outputChannel: vscode.OutputChannel;
+  private readonly _disposables: vscode.Disposable[] = [];
+
+  constructor(cache: PlanCache, provider: PlanMonitorProvider, outputChannel: vscode.OutputChannel) {
+    this._cache = cache;
+    this._provider = provider;
+    this._outputChannel = outputChannel;
+
+    this._disposables.push(
+      this._register(PlanCommands.goToTaskCommand, () => this._goToTask()),
+      this._register(PlanCommands.nextPendingTaskCommand, () => this._goToNextTask(
+        'pending', (plan, task) => getStateCategory(plan.states, task.state) === StateCategory.Open
+      )),
+      this._register(PlanCommands.nextInProgressTaskCommand, () => this._goToNextTask(
+        'in-progress', (plan, task) => getStateCategory(plan.states, task.state) === StateCategory.Active
+      )),
+      this._register(PlanCommands.markDoneCommand, () => this._markTasks(TaskState.Done)),
+      this._register(PlanCommands.markInProgressCommand, () => this._markTasks(TaskState.InProgress)),
+      this._register(PlanCommands.markBlockedCommand, () => this._markTasks(TaskState.Blocked)),
+      this._register(PlanCommands.refreshCommand, () => this._refresh()),
+      this._register(PlanCommands.selectPlanFileCommand, () => this._selectPlanFile()),
+      this._register(PlanCommands.showChangesSinceCommand, () => this._showChangesSince()),
+      this._register(PlanCommands.exportPlanCommand, () => this._exportPlan()),
+      vscode.window.onDidChangeActiveTextEditor(() => this.updateContext()),
+      provider.onDidChangeConfig(() => this.updateContext())
+    );
+
+    this.updateContext();
+  }
+
+  dispose(): void {
+    this._disposables.forEach(disposable => disposable.dispose());
+  }
+
+  /**
+   * Set the context key that scopes the keybindings to plan editors
+   */
+  updateContext(): void {
+    const document = vscode.window.activeTextEditor?.document;
+    const isPlanEditor = !!document && document.uri.scheme === 'file' && this._provider.isPlanDocument(document);
+    vscode.commands.executeCommand('setContext', PLAN_EDITOR_CONTEXT, isPlanEditor);
+  }
+
+  /**
+   * Register a command, reporting failures instead of letting them vanish
+   */
+  private _register(command: string, callback: () => Promise<void>): vscode.Disposable {
+    return vscode.commands.registerCommand(command, async () => {
+      try {
+        await callback();
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        this._outputChannel.appendLine(`[Commands] ERROR in ${command}: ${errorMsg}`);
+        vscode.window.showErrorMessage(`Task Planner: ${errorMsg}`);
+      }
+    });
+  }
+
+  /**
+   * Quick pick over the tasks of every plan, opening the chosen one
+   */
+  private async _goToTask(): Promise<void> {
+    const items: TaskPickItem[] = [];
+
+    for (const fileUri of await this._provider.getPlanFiles()) {
+      const plan = await this._cache.load(fileUri.fsPath);
+      const relativePath = getWorkspaceRelativePath(fileUri);
+
+      const visit = (list: HierarchyItem[], path: string[]) => {
+        for (const item of list) {
+          if (item.type === ItemType.Heading) {
+            visit(item.children, [...path, item.text]);
+            continue;
+          }
+
+          const state = getStateDefinition(plan.states, item.state);
+          items.push({
+            label: `${state?.icon ? `$(${state.icon}) ` : ''}${item.text}`,
+            description: path.join(' › '),
+            detail: `${relativePath}:${item.line + 1} · ${state?.label ?? item.state}`,
+            filePath: plan.filePath,
+            line: item.line
+          });
+          visit(item.children, path);
+        }
+      };
+      visit(plan.tasks, []);
+    }
+
+    const picked = await vscode.window.showQuickPick(items, {
+      title: 'Go to Task',
+      placeHolder: items.length > 0 ? 'Search tasks in all plans' : 'No tasks found',
+      matchOnDescription: true,
+      matchOnDetail: true
+    });
+
+    if (picked) {
+      await this._revealLine(vscode.Uri.file(picked.filePath), picked.line);
+    }
+  }
+
+  /**
+   * Move the cursor to the next matching task after it, wrapping around
+   * Works on the plan in the active editor, or opens the plan selected in the sidebar.
+   */
+  private async _goToNextTask(
+    label: string,
+    matches: (plan: ParsedPlan, task: HierarchyItem) => boolean
+  ): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    const fileUri = editor && this._provider.isPlanDocument(editor.document)
+      ? editor.document.uri
+      : this._provider.currentFile;
+
+    if (!fileUri) {
+      vscode.window.showInformationMessage('Open a plan file first');
+      return;
+    }
+
+    const plan = await this._cache.load(fileUri.fsPath);
+    const tasks = collectTasks(plan.tasks)
+      .filter(task => matches(plan, task))
+      .sort((a, b) => a.line - b.line);
+
+    if (tasks.length === 0) {
+      vscode.window.showInformationMessage(`No ${label} tasks in this plan`);
+      return;
+    }
+
+    const cursorLine = editor?.document.uri.fsPath === fileUri.fsPath ? editor.selection.active.line : -1;
+    const next = tasks.find(task => task.line > cursorLine) || tasks[0];
+
+    await this._revealLine(fileUri, next.line);
+  }
+
+  /**
+   * Set the state of the task under each cursor in the active plan editor
+   */
+  private async _markTasks(builtIn: TaskState): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || !this._provider.isPlanDocument(editor.document)) {
+      vscode.window.showInformationMessage('Place the cursor on a task in a plan file');
+      return;
+    }
+
+    const plan = await this._cache.load(editor.document.uri.fsPath);
+    const state = resolveBuiltInState(plan.states, builtIn);
+    const tasks = new Set<HierarchyItem>();
+
+    for (const selection of editor.selections) {
+      const task = findTaskAtLine(editor.document, plan.tasks, selection.active.line);
+      if (task) {
+        tasks.add(task);
+      }
+    }
+
+    if (tasks.size === 0) {
+      vscode.window.showInformationMessage('No task under the cursor');
+      return;
+    }
+
+    const changes = Array.from(tasks)
+      .filter(task => task.checkbox && task.state !== state)
+      .map(task => ({ checkbox: task.checkbox!, state }));
+
+    await setTaskStates(editor.document.uri, changes, plan.states);
+  }
+
+  /**
+   * Drop every cached parse and read all plans again
+   */
+  private async _refresh(): Promise<void> {
+    this._outputChannel.appendLine('[Commands] Refreshing plans');
+    this._cache.clear();
+    await this._provider.refreshView();
+    this.updateContext();
+  }
+
+  /**
+   * Pick the plan shown in the sidebar
+   */
+  private async _selectPlanFile(): Promise<void> {
+    const files = await this._provider.getPlanFiles();
+    const current = this._provider.currentFile?.fsPath;
+
+    const items: PlanPickItem[] = [
+      { label: '$(list-tree) All plans', description: 'Progress of every plan file' },
+      ...files.map(fileUri => ({
+        label: `$(checklist) ${getWorkspaceRelativePath(fileUri)}`,
+        description: fileUri.fsPath === current ? 'current' : undefined,
+        fileUri
+      }))
+    ];
+
+    const picked = await vscode.window.showQuickPick(items, {
+      title: 'Select Plan File',
+      placeHolder: files.length > 0 ? 'Plan to show in the Tasks view' : 'No plan files found'
+    });
+
+    if (picked) {
+      await this._provider.selectPlanFile(picked.fileUri);
+      await vscode.commands.executeCommand(`${getTasksViewId()}.focus`);
+    }
+  }
+
+  /**
+   * Compare the plan in the active editor (or the sidebar's plan) with a git ref
+   */
+  private async _showChangesSince(): Promise<void> {
+    if (getTasksViewId() !== PlanMonitorProvider.viewType) {
+      vscode.window.showInformationMessage('"Changes since…" is shown in the webview Tasks view (setting "taskPlanner.view")');
+      return;
+    }
+
+    const editor = vscode.window.activeTextEditor;
+    if (editor && this._provider.isPlanDocument(editor.document) &&
+        editor.document.uri.fsPath !== this._provider.currentFile?.fsPath) {
+      await this._provider.selectPlanFile(editor.document.uri);
+    }
+
+    await this._provider.showChanges();
+    await vscode.commands.executeCommand(`${PlanMonitorProvider.viewType}.focus`);
+  }
+
+  /**
+   * Write the current plan or all plans as JSON, CSV, HTML or a Markdown summary
+   */
+  private async _exportPlan(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    const current = editor && this._provider.isPlanDocument(editor.document)
+      ? editor.document.uri
+      : this._provider.currentFile;
+    const files = await this._provider.getPlanFiles();
+
+    let scope: vscode.Uri[] = files;
+    if (current) {
+      const picked = await vscode.window.showQuickPick([
+        { label: `$(checklist) ${getWorkspaceRelativePath(current)}`, description: 'Current plan', files: [current] },
+        { label: '$(list-tree) All plans', description: `${files.length} plan files`, files }
+      ], { title: 'Export Plan', placeHolder: 'Plans to export' });
+
+      if (!picked) {
+        return;
+      }
+      scope = picked.files;
+    }
+
+    if (scope.length === 0) {
+      vscode.window.showInformationMessage('No plan files to export');
+      return;
+    }
+
+    const formats: FormatPickItem[] = (Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => ({
+      label: EXPORT_FORMATS[format].label,
+      description: `.${EXPORT_FORMATS[format].extension}`,
+      format
+    }));
+    const pickedFormat = await vscode.window.showQuickPick(formats, { title: 'Export Plan', placeHolder: 'Format' });
+    if (!pickedFormat) {
+      return;
+    }
+
+    const { extension, write } = EXPORT_FORMATS[pickedFormat.format];
+    const baseName = scope.length === 1 ? path.basename(scope[0].fsPath, path.extname(scope[0].fsPath)) : 'plans';
+    const folder = vscode.workspace.getWorkspaceFolder(scope[0])?.uri ?? vscode.Uri.file(path.dirname(scope[0].fsPath));
+
+    const target = await vscode.window.showSaveDialog({
+      title: 'Export Plan',
+      defaultUri: vscode.Uri.joinPath(folder, `${baseName}.${extension}`),
+      filters: { [EXPORT_FORMATS[pickedFormat.format].label]: [extension] }
+    });
+    if (!target) {
+      return;
+    }
+
+    const plans: ExportedPlan[] = [];
+    for (const fileUri of scope) {
+      plans.push({ plan: await this._cache.load(fileUri.fsPath), relativePath: getWorkspaceRelativePath(fileUri) });
+    }
+
+    await vscode.workspace.fs.writeFile(target, Buffer.from(write(plans), 'utf-8'));
+    this._outputChannel.appendLine(`[Commands] Exported ${plans.length} plan(s) to ${target.fsPath}`);
+
+    const action = await vscode.window.showInformationMessage(`Exported to ${path.basename(target.fsPath)}`, 'Open');
+    if (action === 'Open') {
+      // Reports open in the browser, the other formats as text
+      if (pickedFormat.format === 'html') {
+        await vscode.env.openExternal(target);
+      } else {
+        await vscode.window.showTextDocument(target);
+      }
+    }
+  }
+
+  private async _revealLine(fileUri: vscode.Uri, line: number): Promise<void> {
+    const editor = await vscode.window.showTextDocument(fileUri);
+    const position = new vscode.Position(line, 0);
+
+    editor.selection = new vscode.Selection(position, position);
+    editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+  }
+}
+
+/**
+ * Finds the task a line belongs to: the task on that line, or the task above
+ * it when the line is indented under it (its notes)
+ */
+function findTaskAtLine(document: vscode.TextDocument, items: HierarchyItem[], line: number): HierarchyItem | undefined {
+  let closest: HierarchyItem | undefined;
+
+  const visit = (list: HierarchyItem[]) => {
+    for (const item of list) {
+      if (item.line <= line && (!closest || item.line >= closest.line)) {
+        closest = item;
+      }
+      visit(item.children);
+    }
+  };
+  visit(items);
+
+  if (closest?.type !== ItemType.Task) {
+    return undefined;
+  }
+
+  const indent = document.lineAt(closest.line).firstNonWhitespaceCharacterIndex;
+  for (let current = closest.line + 1; current <= line; current++) {
+    const text = document.lineAt(current);
+    if (!text.isEmptyOrWhitespace && text.firstNonWhitespaceCharacterIndex <= indent) {
+      return undefined;
+    }
+  }
+
+  return closest;
+}
@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import { PlanCache } from './planCache';
+import { collectTasks } from './planParser';
+import { StateCategory, StateDefinition } from './types';
+import { getStateDefinition, isCssColor } from './taskStates';
+
+/** Color for states that don't define one */
+const DEFAULT_STATE_COLOR = 'descriptionForeground';
+
+/**
+ * Colors task checkboxes by state in plan file editors
+ *
+ * Each `[?]` marker gets an outline in its state's color, with a matching mark
+ * in the overview ruler so tasks that aren't open stand out while scrolling.
+ */
+export class PlanDecorationManager implements vscode.Disposable {
+  private static readonly UPDATE_DELAY = 200; // ms after the last keystroke
+
+  private readonly _cache: PlanCache;
+  private readonly _isPlanDocument: (document: vscode.TextDocument) => boolean;
+  private readonly _outputChannel: vscode.OutputChannel;
+  private readonly _decorationTypes: Map<string, vscode.TextEditorDecorationType> = new Map(); // by color + ruler
+  private readonly _disposables: vscode.Disposable[] = [];
+  private _updateTimer?: NodeJS.Timeout;
+
+  constructor(
+    cache: PlanCache,
+    isPlanDocument: (document: vscode.TextDocument) => boolean,
+    outputChannel: vscode.OutputChannel
+  ) {
+    this._cache = cache;
+    this._isPlanDocument = isPlanDocument;
+    this._outputChannel = outputChannel;
+
+    this._disposables.push(
+      vscode.window.onDidChangeVisibleTextEditors(() => this.updateAll()),
+      vscode.workspace.onDidChangeTextDocument(event => {
+        if (vscode.window.visibleTextEditors.some(editor => editor.document === event.document)) {
+          this._scheduleUpdate();
+        }
+      })
+    );
+  }
+
+  /**
+   * Redecorate every visible plan editor
+   */
+  updateAll(): void {
+    vscode.window.visibleTextEditors.forEach(editor => this._update(editor));
+  }
+
+  dispose(): void {
+    if (this._updateTimer) {
+      clearTimeout(this._updateTimer);
+    }
+    this._disposables.forEach(disposable => disposable.dispose());
+    this._decorationTypes.forEach(type => type.dispose());
+  }
+
+  /**
+   * Key of the decoration type for a state, created on first use
+   * States with the same color share one decoration type.
+   */
+  private _getDecorationKey(state: StateDefinition | undefined): string {
+    const colorId = state?.color || DEFAULT_STATE_COLOR;
+    const showInRuler = !!state && state.category !== StateCategory.Open;
+    const key = `${colorId}|${showInRuler}`;
+
+    if (!this._decorationTypes.has(key)) {
+      const color = isCssColor(colorId) ? colorId : new vscode.ThemeColor(colorId);
+      this._decorationTypes.set(key, vscode.window.createTextEditorDecorationType({
+        color,
+        fontWeight: 'bold',
+        borderWidth: '1px',
+        borderStyle: 'solid',
+        borderColor: color,
+        borderRadius: '3px',
+        overviewRulerColor: showInRuler ? color : undefined,
+        overviewRulerLane: vscode.OverviewRulerLane.Left
+      }));
+    }
+
+    return key;
+  }
+
+  private _scheduleUpdate(): void {
+    if (this._updateTimer) {
+      clearTimeout(this._updateTimer);
+    }
+    this._updateTimer = setTimeout(() => {
+      this._updateTimer = undefined;
+      this.updateAll();
+    }, PlanDecorationManager.UPDATE_DELAY);
+  }
+
+  private async _update(editor: vscode.TextEditor): Promise<void> {
+    if (!this._isPlanDocument(editor.document)) {
+      return;
+    }
+
+    try {
+      const plan = await this._cache.load(editor.document.uri.fsPath);
+      const rangesByType: Map<string, vscode.Range[]> = new Map();
+
+      for (const task of collectTasks(plan.tasks)) {
+        if (!task.state || !task.checkbox) {
+          continue;
+        }
+
+        // Decorate the whole "[x]" including brackets
+        const { line, start, end } = task.checkbox;
+        const key = this._getDecorationKey(getStateDefinition(plan.states, task.state));
+        const ranges = rangesByType.get(key) || [];
+        ranges.push(new vscode.Range(line, start - 1, line, end + 1));
+        rangesByType.set(key, ranges);
+      }
+
+      // Clear the types this editor no longer uses
+      this._decorationTypes.forEach((type, key) => {
+        editor.setDecorations(type, rangesByType.get(key) || []);
+      });
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this._outputChannel.appendLine(`[Decorations] ERROR decorating ${editor.document.uri.fsPath}: ${errorMsg}`);
+    }
+  }
+}
@@ -0,0 +1,285 @@
+import * as vscode from 'vscode';
+import { PlanCache } from './planCache';
+import { collectDescendantTasks, collectTasks } from './planParser';
+import { CheckboxRange, HierarchyItem, PlanProblem, PlanProblemCode, StateCategory, StateDefinition, TaskState } from './types';
+import { getStateCategory, getStateMarker, resolveBuiltInState } from './taskStates';
+import { generateAnchor } from './taskIdentity';
+
+/** Source shown next to every plan diagnostic */
+const DIAGNOSTIC_SOURCE = 'Task Planner';
+
+/** Severity of each kind of problem */
+const PROBLEM_SEVERITY: Record<PlanProblemCode, vscode.DiagnosticSeverity> = {
+  [PlanProblemCode.UnknownMarker]: vscode.DiagnosticSeverity.Warning,
+  [PlanProblemCode.DoneWithPendingChildren]: vscode.DiagnosticSeverity.Warning,
+  [PlanProblemCode.DuplicateTask]: vscode.DiagnosticSeverity.Information,
+  [PlanProblemCode.DuplicateAnchor]: vscode.DiagnosticSeverity.Warning,
+  [PlanProblemCode.TaskBeforeSection]: vscode.DiagnosticSeverity.Information
+};
+
+/**
+ * Reports malformed or inconsistent tasks in open plan files
+ */
+export class PlanDiagnosticManager implements vscode.Disposable {
+  private static readonly UPDATE_DELAY = 300; // ms after the last keystroke
+
+  private readonly _cache: PlanCache;
+  private readonly _isPlanDocument: (document: vscode.TextDocument) => boolean;
+  private readonly _outputChannel: vscode.OutputChannel;
+  private readonly _collection = vscode.languages.createDiagnosticCollection('taskPlanner');
+  private readonly _disposables: vscode.Disposable[] = [];
+  private readonly _updateTimers: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(
+    cache: PlanCache,
+    isPlanDocument: (document: vscode.TextDocument) => boolean,
+    outputChannel: vscode.OutputChannel
+  ) {
+    this._cache = cache;
+    this._isPlanDocument = isPlanDocument;
+    this._outputChannel = outputChannel;
+
+    this._disposables.push(
+      vscode.workspace.onDidOpenTextDocument(document => this._update(document)),
+      vscode.workspace.onDidChangeTextDocument(event => this._scheduleUpdate(event.document)),
+      vscode.workspace.onDidCloseTextDocument(document => this._collection.delete(document.uri))
+    );
+  }
+
+  /**
+   * Re-check every open document (e.g. after the include patterns changed)
+   */
+  updateAll(): void {
+    this._collection.clear();
+    vscode.workspace.textDocuments.forEach(document => this._update(document));
+  }
+
+  dispose(): void {
+    this._updateTimers.forEach(timer => clearTimeout(timer));
+    this._disposables.forEach(disposable => disposable.dispose());
+    this._collection.dispose();
+  }
+
+  private _scheduleUpdate(document: vscode.TextDocument): void {
+    const key = document.uri.toString();
+    clearTimeout(this._updateTimers.get(key));
+
+    this._updateTimers.set(key, setTimeout(() => {
+      this._updateTimers.delete(key);
+      this._update(document);
+    }, PlanDiagnosticManager.UPDATE_DELAY));
+  }
+
+  private async _update(document: vscode.TextDocument): Promise<void> {
+    if (document.uri.scheme !== 'file' || !this._isPlanDocument(document)) {
+      return;
+    }
+
+    try {
+      const plan = await this._cache.load(document.uri.fsPath);
+      this._collection.set(document.uri, plan.problems.map(problem => toDiagnostic(document.uri, problem)));
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this._outputChannel.appendLine(`[Diagnostics] ERROR checking ${document.uri.fsPath}: ${errorMsg}`);
+    }
+  }
+}
+
+/**
+ * Offers a fix for each plan diagnostic
+ */
+export class PlanQuickFixProvider implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  private readonly _cache: PlanCache;
+
+  constructor(cache: PlanCache) {
+    this._cache = cache;
+  }
+
+  async provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): Promise<vscode.CodeAction[]> {
+    const diagnostics = context.diagnostics.filter(diagnostic => diagnostic.source === DIAGNOSTIC_SOURCE);
+    if (diagnostics.length === 0) {
+      return [];
+    }
+
+    const plan = await this._cache.load(document.uri.fsPath);
+    const tasks = collectTasks(plan.tasks);
+    const actions: vscode.CodeAction[] = [];
+
+    for (const diagnostic of diagnostics) {
+      const task = tasks.find(item => item.line === diagnostic.range.start.line);
+
+      switch (diagnostic.code) {
+        case PlanProblemCode.UnknownMarker:
+          actions.push(...this._createMarkerFixes(document, diagnostic, plan.states));
+          break;
+
+        case PlanProblemCode.DoneWithPendingChildren:
+          if (task) {
+            actions.push(...this._createDoneParentFixes(document, diagnostic, task, plan.states));
+          }
+          break;
+
+        case PlanProblemCode.DuplicateTask:
+          actions.push(this._createRemoveLineFix(document, diagnostic));
+          break;
+
+        case PlanProblemCode.DuplicateAnchor:
+          if (task?.anchor) {
+            actions.push(this._createNewAnchorFix(document, diagnostic, task.anchor, tasks));
+          }
+          break;
+
+        case PlanProblemCode.TaskBeforeSection:
+          actions.push(this._createAddSectionFix(document, diagnostic));
+          break;
+      }
+    }
+
+    return actions;
+  }
+
+  /**
+   * Replace [?] with the marker of one of the defined states
+   */
+  private _createMarkerFixes(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    states: StateDefinition[]
+  ): vscode.CodeAction[] {
+    const { line, character } = diagnostic.range.start;
+    const markerRange = new vscode.Range(line, character + 1, line, character + 2);
+
+    return states.map((state, index) => {
+      const action = createFix(`Change to [${state.marker}] (${state.label})`, diagnostic);
+      action.edit = new vscode.WorkspaceEdit();
+      action.edit.replace(document.uri, markerRange, state.marker);
+      action.isPreferred = index === 0;
+      return action;
+    });
+  }
+
+  /**
+   * Either finish the subtasks or reopen the parent
+   */
+  private _createDoneParentFixes(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    task: HierarchyItem,
+    states: StateDefinition[]
+  ): vscode.CodeAction[] {
+    const markDone = createFix('Mark all subtasks done', diagnostic);
+    markDone.edit = new vscode.WorkspaceEdit();
+    for (const child of collectDescendantTasks(task)) {
+      if (getStateCategory(states, child.state) !== StateCategory.Done && child.checkbox) {
+        markDone.edit.replace(document.uri, toRange(child.checkbox), getStateMarker(states, resolveBuiltInState(states, TaskState.Done)));
+      }
+    }
+
+    const reopen = createFix('Mark task in progress', diagnostic);
+    reopen.edit = new vscode.WorkspaceEdit();
+    if (task.checkbox) {
+      reopen.edit.replace(document.uri, toRange(task.checkbox), getStateMarker(states, resolveBuiltInState(states, TaskState.InProgress)));
+    }
+
+    return [markDone, reopen];
+  }
+
+  /**
+   * Delete the duplicate task together with its indented sub-items
+   */
+  private _createRemoveLineFix(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction {
+    const line = diagnostic.range.start.line;
+    const indent = document.lineAt(line).firstNonWhitespaceCharacterIndex;
+
+    let end = line + 1;
+    while (end < document.lineCount) {
+      const next = document.lineAt(end);
+      if (next.isEmptyOrWhitespace || next.firstNonWhitespaceCharacterIndex <= indent) {
+        break;
+      }
+      end++;
+    }
+
+    const action = createFix('Remove duplicate task', diagnostic);
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.delete(document.uri, new vscode.Range(line, 0, end, 0));
+    action.isPreferred = true;
+    return action;
+  }
+
+  /**
+   * Replace a repeated anchor with a new one; references keep pointing at the first task
+   */
+  private _createNewAnchorFix(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    anchor: string,
+    tasks: HierarchyItem[]
+  ): vscode.CodeAction {
+    const line = diagnostic.range.start.line;
+    const text = document.lineAt(line).text;
+    const match = new RegExp(`(id:\\s*|\\^)(${anchor})(?![\\w-])`).exec(text);
+
+    const action = createFix('Give this task a new anchor', diagnostic);
+    if (match) {
+      const start = match.index + match[1].length;
+      const existing = new Set(tasks.map(task => task.anchor).filter((id): id is string => !!id));
+
+      action.edit = new vscode.WorkspaceEdit();
+      action.edit.replace(document.uri, new vscode.Range(line, start, line, start + anchor.length), generateAnchor(existing));
+      action.isPreferred = true;
+    }
+    return action;
+  }
+
+  /**
+   * Insert a "## Tasks" heading above the task
+   */
+  private _createAddSectionFix(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction {
+    const line = diagnostic.range.start.line;
+    const previous = line > 0 ? document.lineAt(line - 1) : undefined;
+    const separator = previous && !previous.isEmptyOrWhitespace ? '\n' : '';
+
+    const action = createFix('Add a section heading above', diagnostic);
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.insert(document.uri, new vscode.Position(line, 0), `${separator}## Tasks\n\n`);
+    return action;
+  }
+}
+
+function createFix(title: string, diagnostic: vscode.Diagnostic): vscode.CodeAction {
+  const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+  action.diagnostics = [diagnostic];
+  return action;
+}
+
+function toRange(checkbox: CheckboxRange): vscode.Range {
+  return new vscode.Range(checkbox.line, checkbox.start, checkbox.line, checkbox.end);
+}
+
+function toDiagnostic(uri: vscode.Uri, problem: PlanProblem): vscode.Diagnostic {
+  const diagnostic = new vscode.Diagnostic(
+    new vscode.Range(problem.line, problem.start, problem.line, Math.max(problem.end, problem.start + 1)),
+    problem.message,
+    PROBLEM_SEVERITY[problem.code]
+  );
+  diagnostic.source = DIAGNOSTIC_SOURCE;
+  diagnostic.code = problem.code;
+
+  if (problem.relatedLine !== undefined) {
+    diagnostic.relatedInformation = [
+      new vscode.DiagnosticRelatedInformation(
+        new vscode.Location(uri, new vscode.Position(problem.relatedLine, 0)),
+        'First occurrence'
+      )
+    ];
+  }
+
+  return diagnostic;
+}
@@ -0,0 +1,87 @@
+import { rematchIds } from './taskIdentity';
+import { getStateCategory } from './taskStates';
+import { HierarchyItem, ItemType, ParsedPlan, StateCategory, TaskChangeKind, TaskDiff } from './types';
+
+/** Order of the change kinds in a diff */
+const KIND_ORDER = [TaskChangeKind.Checked, TaskChangeKind.Restated, TaskChangeKind.Added, TaskChangeKind.Removed];
+
+/** A task with the headings above it */
+interface TaskEntry {
+  task: HierarchyItem;
+  group: string[];
+}
+
+/**
+ * Compares two versions of a plan task by task
+ *
+ * Tasks are matched by id; a task whose text was edited keeps the id of its
+ * earlier version when the text is similar enough (see rematchIds). Edits that
+ * leave a task's state alone are not reported.
+ *
+ * @param previous Earlier version, parsed with the same file path and states (its ids are mutated)
+ * @param current Current version of the plan
+ * @returns Checked, re-stated, added and removed tasks, each in document order
+ */
+export function diffPlans(previous: ParsedPlan, current: ParsedPlan): TaskDiff[] {
+  rematchIds(previous.tasks, current.tasks);
+
+  const before = collectTaskEntries(previous.tasks);
+  const after = collectTaskEntries(current.tasks);
+  const changes: TaskDiff[] = [];
+
+  for (const [id, { task, group }] of after) {
+    const earlier = before.get(id)?.task;
+
+    if (!earlier) {
+      changes.push({ kind: TaskChangeKind.Added, id, text: task.text, group, to: task.state, line: task.line });
+      continue;
+    }
+    if (earlier.state === task.state) {
+      continue;
+    }
+
+    const isDone = getStateCategory(current.states, task.state) === StateCategory.Done;
+    const wasDone = getStateCategory(current.states, earlier.state) === StateCategory.Done;
+
+    changes.push({
+      kind: isDone && !wasDone ? TaskChangeKind.Checked : TaskChangeKind.Restated,
+      id,
+      text: task.text,
+      group,
+      from: earlier.state,
+      to: task.state,
+      line: task.line
+    });
+  }
+
+  for (const [id, { task, group }] of before) {
+    if (!after.has(id)) {
+      changes.push({ kind: TaskChangeKind.Removed, id, text: task.text, group, from: task.state });
+    }
+  }
+
+  // Stable sort keeps document order within each kind
+  return changes.sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind));
+}
+
+/**
+ * Maps task ids to the task and its heading path, in document order
+ */
+function collectTaskEntries(items: HierarchyItem[]): Map<string, TaskEntry> {
+  const entries: Map<string, TaskEntry> = new Map();
+
+  const visit = (list: HierarchyItem[], group: string[]) => {
+    for (const item of list) {
+      if (item.type === ItemType.Heading) {
+        visit(item.children, [...group, item.text]);
+        continue;
+      }
+
+      entries.set(item.id, { task: item, group });
+      visit(item.children, group);
+    }
+  };
+  visit(items, []);
+
+  return entries;
+}
@@ -0,0 +1,303 @@
+import { collectTasks } from './planParser';
+import { removeAnchors } from './taskMetadata';
+import { getPercentDone, getStateCategory, getStateDefinition, isCssColor } from './taskStates';
+import { HierarchyItem, ItemType, ParsedPlan, StateCategory, StateDefinition } from './types';
+
+/**
+ * Plain-Node report writers for the "Export Plan" command
+ * Kept free of the vscode API so the CLI could share them.
+ */
+
+/** A plan with the path shown for it in reports */
+export interface ExportedPlan {
+  plan: ParsedPlan;
+  relativePath: string;
+}
+
+export type ExportFormat = 'json' | 'csv' | 'html' | 'markdown';
+
+/** Label, file extension and writer of each format */
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; write: (plans: ExportedPlan[]) => string }> = {
+  json: { label: 'JSON', extension: 'json', write: exportJson },
+  csv: { label: 'CSV', extension: 'csv', write: exportCsv },
+  html: { label: 'HTML report', extension: 'html', write: exportHtml },
+  markdown: { label: 'Markdown summary', extension: 'md', write: exportMarkdown }
+};
+
+/** Colors of the HTML report per category, used when a state has no CSS color */
+const CATEGORY_COLORS: Record<StateCategory, string> = {
+  [StateCategory.Open]: '#8b8b8b',
+  [StateCategory.Done]: '#388a34',
+  [StateCategory.Active]: '#007acc',
+  [StateCategory.Blocked]: '#e51400'
+};
+
+/**
+ * The full hierarchy of each plan with states, counts and aggregated status
+ */
+export function exportJson(plans: ExportedPlan[]): string {
+  return JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    plans: plans.map(({ plan, relativePath }) => ({
+      title: plan.title,
+      file: relativePath,
+      totalCount: plan.totalCount,
+      stateCount: plan.stateCount,
+      categoryCount: plan.categoryCount,
+      states: plan.states,
+      items: plan.tasks.map(toExportedItem)
+    }))
+  }, null, 2) + '\n';
+}
+
+/**
+ * One row per task with its plan, heading path and metadata
+ */
+export function exportCsv(plans: ExportedPlan[]): string {
+  const rows: string[][] = [
+    ['File', 'Section', 'Parent Task', 'Task', 'State', 'Line', 'Assignees', 'Tags', 'Due', 'Priority']
+  ];
+
+  for (const { plan, relativePath } of plans) {
+    const visit = (items: HierarchyItem[], headings: string[], parents: string[]) => {
+      for (const item of items) {
+        if (item.type === ItemType.Heading) {
+          visit(item.children, [...headings, item.text], parents);
+          continue;
+        }
+
+        rows.push([
+          relativePath,
+          headings.join(' > '),
+          parents.join(' > '),
+          item.text,
+          getStateDefinition(plan.states, item.state)?.label ?? item.state ?? '',
+          String(item.line + 1),
+          (item.assignees || []).join(' '),
+          (item.tags || []).join(' '),
+          item.due ?? '',
+          item.priority ?? ''
+        ]);
+        visit(item.children, headings, [...parents, item.text]);
+      }
+    };
+    visit(plan.tasks, [], []);
+  }
+
+  return rows.map(row => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * A standalone page with the progress and task tree of each plan
+ */
+export function exportHtml(plans: ExportedPlan[]): string {
+  const title = plans.length === 1 ? plans[0].plan.title : 'Plan Report';
+
+  const sections = plans.map(({ plan, relativePath }) => {
+    const percent = getPercentDone(plan.categoryCount.done, plan.totalCount);
+    const badges = plan.states
+      .filter(state => plan.stateCount[state.id] > 0)
+      .map(state => `<span class="badge" style="--color: ${getReportColor(state)}">${escapeHtml(state.label)} ${plan.stateCount[state.id]}</span>`)
+      .join('');
+
+    return `
+  <section class="plan">
+    <h1>${escapeHtml(plan.title)}</h1>
+    <div class="path">${escapeHtml(relativePath)}</div>
+    <div class="progress"><div class="progress-fill" style="width: ${percent}%"></div></div>
+    <div class="stats">${plan.categoryCount.done}/${plan.totalCount} done (${percent}%) ${badges}</div>
+    ${renderHtmlItems(plan.tasks, plan.states)}
+  </section>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; font-size: 13px; max-width: 900px; margin: 24px auto; padding: 0 16px; color: #333; background: #fff; }
+    h1 { font-size: 1.4em; margin-bottom: 2px; }
+    h2, h3, h4, h5, h6 { font-size: 1.05em; margin: 14px 0 4px; }
+    ul { list-style: none; padding-left: 18px; margin: 2px 0; }
+    li { padding: 2px 0; }
+    .plan { padding-bottom: 16px; border-bottom: 1px solid #ddd; }
+    .path, .meta { color: #888; }
+    .meta { font-size: 0.9em; margin-left: 4px; }
+    .progress { height: 4px; margin: 8px 0; border-radius: 2px; background: #e5e5e5; overflow: hidden; }
+    .progress-fill { height: 100%; background: ${CATEGORY_COLORS[StateCategory.Done]}; }
+    .stats { margin-bottom: 8px; }
+    .badge { display: inline-block; margin-left: 6px; padding: 0 6px; border-radius: 8px; font-size: 11px; color: #fff; background: var(--color); }
+    .checkbox { display: inline-block; width: 12px; height: 12px; margin-right: 6px; vertical-align: -1px; border: 1px solid var(--color); border-radius: 2px; background: var(--fill, transparent); }
+    .done > .text { color: #888; text-decoration: line-through; }
+    @media (prefers-color-scheme: dark) {
+      body { color: #ccc; background: #1e1e1e; }
+      .plan { border-color: #444; }
+      .progress { background: #333; }
+    }
+  </style>
+</head>
+<body>
+${sections}
+  <p class="path">Exported ${escapeHtml(new Date().toLocaleString())}</p>
+</body>
+</html>
+`;
+}
+
+/**
+ * A few lines per plan: progress, then what is in progress and blocked
+ */
+export function exportMarkdown(plans: ExportedPlan[]): string {
+  const lines: string[] = [];
+
+  if (plans.length > 1) {
+    const total = plans.reduce((sum, { plan }) => sum + plan.totalCount, 0);
+    const done = plans.reduce((sum, { plan }) => sum + plan.categoryCount.done, 0);
+    lines.push(`**All plans**: ${formatProgress(done, total)}`, '');
+  }
+
+  for (const { plan } of plans) {
+    lines.push(`**${plan.title}**: ${formatProgress(plan.categoryCount.done, plan.totalCount)}`);
+
+    for (const [category, label] of [[StateCategory.Active, 'In progress'], [StateCategory.Blocked, 'Blocked']] as const) {
+      const tasks = collectTasks(plan.tasks).filter(task => getStateCategory(plan.states, task.state) === category);
+      if (tasks.length > 0) {
+        lines.push(`- ${label}: ${tasks.map(task => task.text).join('; ')}`);
+      }
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * A heading or task with everything under it, copied from the plan's source
+ *
+ * Lines are kept as written (metadata, `after:` prerequisites and notes
+ * included); only anchors are left out so the copy can be pasted into the
+ * same plan. A task's block is un-indented to the task's own level.
+ *
+ * @param item Heading or task to copy
+ * @param content Source the item was parsed from
+ */
+export function subtreeToMarkdown(item: HierarchyItem, content: string): string {
+  const lines = content.split(/\r?\n/);
+  let end = item.line + 1;
+
+  if (item.type === ItemType.Heading) {
+    // Up to the next heading of the same or a higher level
+    const sectionEnd = new RegExp(`^#{1,${item.level}}\\s`);
+    while (end < lines.length && !sectionEnd.test(lines[end])) {
+      end++;
+    }
+  } else {
+    // Up to the next line that is indented no deeper than the task
+    const indent = getIndent(lines[item.line]);
+    while (end < lines.length && (lines[end].trim() === '' || getIndent(lines[end]) > indent)) {
+      end++;
+    }
+  }
+
+  const dedent = item.type === ItemType.Task ? getIndent(lines[item.line]) : 0;
+  const block = lines.slice(item.line, end).map(line => removeAnchors(line.slice(Math.min(dedent, getIndent(line)))));
+
+  return block.join('\n').trim() + '\n';
+}
+
+function getIndent(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Item without the editor-only fields (checkbox ranges, resolved dependencies)
+ */
+function toExportedItem(item: HierarchyItem): object {
+  return {
+    id: item.id,
+    type: item.type,
+    text: item.text,
+    ...(item.markdown && { markdown: item.markdown }),
+    ...(item.state && { state: item.state }),
+    ...(item.aggregatedStatus && { aggregatedStatus: item.aggregatedStatus }),
+    line: item.line,
+    level: item.level,
+    ...(item.assignees && { assignees: item.assignees }),
+    ...(item.tags && { tags: item.tags }),
+    ...(item.due && { due: item.due }),
+    ...(item.priority && { priority: item.priority }),
+    ...(item.anchor && { anchor: item.anchor }),
+    ...(item.dependsOn && { dependsOn: item.dependsOn }),
+    ...(item.notes && { notes: item.notes }),
+    children: item.children.map(toExportedItem)
+  };
+}
+
+function renderHtmlItems(items: HierarchyItem[], states: StateDefinition[]): string {
+  if (items.length === 0) {
+    return '';
+  }
+
+  const tasks = items.filter(item => item.type === ItemType.Task);
+  const headings = items.filter(item => item.type === ItemType.Heading);
+
+  const taskList = tasks.length > 0
+    ? `<ul>${tasks.map(task => {
+      const state = getStateDefinition(states, task.state);
+      const color = state ? getReportColor(state) : CATEGORY_COLORS[StateCategory.Open];
+      const isDone = state?.category === StateCategory.Done;
+      const meta = [
+        ...(task.assignees || []).map(name => `@${name}`),
+        ...(task.tags || []).map(tag => `#${tag}`),
+        ...(task.due ? [`due ${task.due}`] : [])
+      ].join(' ');
+
+      return `<li class="${isDone ? 'done' : ''}">` +
+        `<span class="checkbox" style="--color: ${color}; ${state?.category === StateCategory.Open ? '' : `--fill: ${color}`}" title="${escapeHtml(state?.label ?? task.state ?? '')}"></span>` +
+        `<span class="text">${escapeHtml(task.text)}</span>` +
+        (meta ? `<span class="meta">${escapeHtml(meta)}</span>` : '') +
+        renderHtmlItems(task.children, states) +
+        '</li>';
+    }).join('')}</ul>`
+    : '';
+
+  const sections = headings.map(heading => {
+    const level = Math.min(Math.max(heading.level, 2), 6);
+    return `<h${level}>${escapeHtml(heading.text)}</h${level}>${renderHtmlItems(heading.children, states)}`;
+  }).join('');
+
+  return taskList + sections;
+}
+
+/**
+ * A state's own color when it is a plain CSS color, otherwise its category color
+ * Theme color ids mean nothing outside VS Code; anything else could inject CSS.
+ */
+function getReportColor(state: StateDefinition): string {
+  return state.color && isCssColor(state.color)
+    ? state.color
+    : CATEGORY_COLORS[state.category];
+}
+
+function formatProgress(done: number, total: number): string {
+  return `${done}/${total} done (${getPercentDone(done, total)}%)`;
+}
+
+/**
+ * Quotes a CSV cell; cells that a spreadsheet would run as a formula get a leading `'`
+ */
+function toCsvField(value: string): string {
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
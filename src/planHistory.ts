@@ -0,0 +1,271 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { PlanWatcher } from './planWatcher';
+import { collectTasks, parsePlan } from './planParser';
+import { rematchIds } from './taskIdentity';
+import { getStateCategory } from './taskStates';
+import {
+  CompletedTask,
+  HistoryPoint,
+  ParsedPlan,
+  PlanSnapshot,
+  SnapshotChange,
+  StateCategory,
+  StateCount,
+  StateDefinition
+} from './types';
+
+const HISTORY_DIR = '.codr';
+const HISTORY_FILE = 'task-history.jsonl';
+
+/**
+ * Gets the history file path for a folder
+ * @param folderPath Workspace root folder
+ */
+export function getHistoryPath(folderPath: string): string {
+  return path.join(folderPath, HISTORY_DIR, HISTORY_FILE);
+}
+
+/**
+ * Reads the snapshots recorded in a folder, oldest first
+ * @param folderPath Workspace root folder
+ * @param file Only return snapshots of this plan (relative path)
+ * @returns Snapshots; lines that can't be parsed are skipped
+ */
+export async function readHistory(folderPath: string, file?: string): Promise<PlanSnapshot[]> {
+  let content: string;
+  try {
+    content = await fs.promises.readFile(getHistoryPath(folderPath), 'utf-8');
+  } catch (error) {
+    // No history recorded yet
+    return [];
+  }
+
+  const snapshots: PlanSnapshot[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const snapshot = JSON.parse(line) as PlanSnapshot;
+      if (!file || snapshot.file === file) {
+        snapshots.push(snapshot);
+      }
+    } catch (error) {
+      // Half-written or hand-edited line
+    }
+  }
+
+  return snapshots;
+}
+
+/**
+ * Appends one snapshot to a folder's history file
+ * @param folderPath Workspace root folder
+ * @param snapshot Snapshot to write as a single JSON line
+ */
+export async function appendSnapshot(folderPath: string, snapshot: PlanSnapshot): Promise<void> {
+  const historyPath = getHistoryPath(folderPath);
+  await fs.promises.mkdir(path.dirname(historyPath), { recursive: true });
+  await fs.promises.appendFile(historyPath, JSON.stringify(snapshot) + '\n', 'utf-8');
+}
+
+/**
+ * Turns snapshots into burndown points, counting with the current states
+ * @param snapshots Snapshots of one plan, oldest first
+ * @param states States the plan is parsed with now
+ */
+export function toHistoryPoints(snapshots: PlanSnapshot[], states: StateDefinition[]): HistoryPoint[] {
+  return snapshots.map(snapshot => {
+    let total = 0;
+    let done = 0;
+
+    for (const [state, count] of Object.entries(snapshot.stateCount)) {
+      total += count;
+      if (getStateCategory(states, state) === StateCategory.Done) {
+        done += count;
+      }
+    }
+
+    return { time: snapshot.time, total, done, remaining: total - done };
+  });
+}
+
+/**
+ * Tasks that moved into a done state since a given time, newest first
+ * A task reopened afterwards is left out; one finished twice is listed once.
+ * @param snapshots Snapshots of one plan, oldest first
+ * @param states States the plan is parsed with now
+ * @param since Start of the period
+ */
+export function getCompletedTasks(snapshots: PlanSnapshot[], states: StateDefinition[], since: Date): CompletedTask[] {
+  const completed: Map<string, CompletedTask> = new Map();
+
+  for (const snapshot of snapshots) {
+    if (new Date(snapshot.time) < since) {
+      continue;
+    }
+    for (const change of snapshot.changed) {
+      const id = toHistoryId(change.id);
+      if (getStateCategory(states, change.to) === StateCategory.Done) {
+        completed.set(id, { id, text: change.text, time: snapshot.time });
+      } else {
+        completed.delete(id);
+      }
+    }
+  }
+
+  return Array.from(completed.values()).reverse();
+}
+
+/**
+ * Monday 00:00 local time of the week containing a date
+ */
+export function getWeekStart(date: Date): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - (start.getDay() + 6) % 7);
+  return start;
+}
+
+/**
+ * Appends a snapshot to .codr/task-history.jsonl whenever a plan file is
+ * saved or changed on disk with different progress
+ *
+ * Only the file on disk counts: edits that are typed but never saved don't
+ * show up as progress. The last version of each plan is remembered for the
+ * session, so each snapshot lists the tasks that changed state. Changes that
+ * alter no state or count (e.g. editing task text) are not recorded.
+ */
+export class PlanHistoryRecorder implements vscode.Disposable {
+  private readonly _getStates: (filePath: string) => StateDefinition[];
+  private readonly _outputChannel: vscode.OutputChannel;
+  private readonly _plans: Map<string, ParsedPlan> = new Map(); // fsPath → last version read from disk
+  private readonly _stateCounts: Map<string, StateCount> = new Map(); // fsPath → last recorded counts
+  private readonly _onDidRecord = new vscode.EventEmitter<PlanSnapshot>();
+  private readonly _disposables: vscode.Disposable[] = [];
+  private _queue: Promise<void> = Promise.resolve();
+
+  /** Fires after a snapshot was written */
+  public readonly onDidRecord = this._onDidRecord.event;
+
+  /**
+   * @param watcher Watcher reporting plan files created, saved or changed on disk
+   * @param isPlanDocument Whether an opened document is a plan file
+   * @param getStates States to parse a file with (from its folder's config)
+   * @param outputChannel Channel for logging
+   */
+  constructor(
+    watcher: PlanWatcher,
+    isPlanDocument: (document: vscode.TextDocument) => boolean,
+    getStates: (filePath: string) => StateDefinition[],
+    outputChannel: vscode.OutputChannel
+  ) {
+    this._getStates = getStates;
+    this._outputChannel = outputChannel;
+
+    // Read a plan when it is opened, so the first save already lists the tasks it changed
+    const readOnOpen = (document: vscode.TextDocument) => {
+      if (document.uri.scheme === 'file' && !this._plans.has(document.uri.fsPath) && isPlanDocument(document)) {
+        this._enqueue(document.uri.fsPath);
+      }
+    };
+    vscode.workspace.textDocuments.forEach(readOnOpen);
+
+    this._disposables.push(
+      watcher.onDidChange(uri => this._enqueue(uri.fsPath)),
+      vscode.workspace.onDidOpenTextDocument(readOnOpen)
+    );
+  }
+
+  dispose(): void {
+    this._disposables.forEach(disposable => disposable.dispose());
+    this._onDidRecord.dispose();
+  }
+
+  /**
+   * Snapshots are written one at a time so lines never interleave
+   */
+  private _enqueue(filePath: string): void {
+    this._queue = this._queue.then(() => this._record(filePath));
+  }
+
+  private async _record(filePath: string): Promise<void> {
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+    if (!folder) {
+      return;
+    }
+
+    try {
+      let content: string;
+      try {
+        content = await fs.promises.readFile(filePath, 'utf-8');
+      } catch {
+        // Deleted: its next version starts from scratch
+        this._plans.delete(filePath);
+        return;
+      }
+
+      const plan = parsePlan(content, filePath, this._getStates(filePath));
+      const previous = this._plans.get(filePath);
+      if (previous) {
+        rematchIds(plan.tasks, previous.tasks);
+      }
+      this._plans.set(filePath, plan);
+
+      const previousStates: Map<string, string> = new Map(
+        previous ? collectTasks(previous.tasks).map(task => [task.id, task.state ?? '']) : []
+      );
+      const changed: SnapshotChange[] = [];
+
+      for (const task of collectTasks(plan.tasks)) {
+        const from = previousStates.get(task.id);
+        if (task.state && from && from !== task.state) {
+          changed.push({ id: toHistoryId(task.id), text: task.text, from, to: task.state });
+        }
+      }
+
+      const file = path.relative(folder.uri.fsPath, filePath).split(path.sep).join('/');
+
+      // First read this session: compare with the last snapshot on disk
+      let previousCount = this._stateCounts.get(filePath);
+      if (!previousCount) {
+        const snapshots = await readHistory(folder.uri.fsPath, file);
+        previousCount = snapshots[snapshots.length - 1]?.stateCount;
+      }
+
+      if (changed.length === 0 && previousCount && sameCounts(previousCount, plan.stateCount)) {
+        this._stateCounts.set(filePath, plan.stateCount);
+        return;
+      }
+
+      const snapshot: PlanSnapshot = {
+        time: new Date().toISOString(),
+        file,
+        stateCount: plan.stateCount,
+        changed
+      };
+
+      await appendSnapshot(folder.uri.fsPath, snapshot);
+      this._stateCounts.set(filePath, plan.stateCount);
+      this._outputChannel.appendLine(`[History] Recorded ${file}: ${changed.length} task(s) changed state`);
+      this._onDidRecord.fire(snapshot);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this._outputChannel.appendLine(`[History] ERROR recording ${filePath}: ${errorMsg}`);
+    }
+  }
+}
+
+/**
+ * Task id without the plan's path, so history stays valid when the folder moves
+ * Ids recorded with the full path by earlier versions are shortened the same way.
+ */
+function toHistoryId(id: string): string {
+  return id.slice(id.indexOf('#') + 1);
+}
+
+function sameCounts(a: StateCount, b: StateCount): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(keys).every(key => (a[key] || 0) === (b[key] || 0));
+}
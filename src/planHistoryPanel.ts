@@ -0,0 +1,171 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PlanCache } from './planCache';
+import { PlanMonitorProvider } from './planMonitorProvider';
+import { getWorkspaceRelativePath } from './fileDiscovery';
+import { getTasksViewId } from './planTreeProvider';
+import { PlanHistoryRecorder, getCompletedTasks, getWeekStart, readHistory, toHistoryPoints } from './planHistory';
+import { getNonce } from './webviewUtils';
+import { MessageType, PlanHistory, PlanSnapshot, UpdateHistoryMessage } from './types';
+
+/**
+ * Burndown and cumulative-done charts of every plan, opened as an editor tab
+ *
+ * Drawn from the snapshots in each folder's .codr/task-history.jsonl, together
+ * with the tasks completed this week.
+ */
+export class PlanHistoryPanel implements vscode.Disposable {
+  public static readonly viewType = 'taskPlanner.history';
+  public static readonly showHistoryCommand = 'taskPlanner.showHistory';
+
+  private readonly _extensionUri: vscode.Uri;
+  private readonly _cache: PlanCache;
+  private readonly _provider: PlanMonitorProvider;
+  private readonly _outputChannel: vscode.OutputChannel;
+  private readonly _disposables: vscode.Disposable[] = [];
+  private _panel?: vscode.WebviewPanel;
+
+  constructor(
+    extensionUri: vscode.Uri,
+    cache: PlanCache,
+    provider: PlanMonitorProvider,
+    recorder: PlanHistoryRecorder,
+    outputChannel: vscode.OutputChannel
+  ) {
+    this._extensionUri = extensionUri;
+    this._cache = cache;
+    this._provider = provider;
+    this._outputChannel = outputChannel;
+
+    this._disposables.push(
+      vscode.commands.registerCommand(PlanHistoryPanel.showHistoryCommand, () => this._show()),
+      recorder.onDidRecord(() => this.update()),
+      provider.onDidChangeConfig(() => this.update())
+    );
+  }
+
+  dispose(): void {
+    this._panel?.dispose();
+    this._disposables.forEach(disposable => disposable.dispose());
+  }
+
+  /**
+   * Redraw the charts if the panel is open
+   */
+  async update(): Promise<void> {
+    if (!this._panel) {
+      return;
+    }
+
+    try {
+      const weekStart = getWeekStart(new Date());
+      const histories: Map<string, PlanSnapshot[]> = new Map(); // folder → snapshots
+      const plans: PlanHistory[] = [];
+
+      for (const fileUri of await this._provider.getPlanFiles()) {
+        const folder = vscode.workspace.getWorkspaceFolder(fileUri);
+        if (!folder) {
+          continue;
+        }
+
+        if (!histories.has(folder.uri.fsPath)) {
+          histories.set(folder.uri.fsPath, await readHistory(folder.uri.fsPath));
+        }
+
+        const plan = await this._cache.load(fileUri.fsPath);
+        const file = path.relative(folder.uri.fsPath, fileUri.fsPath).split(path.sep).join('/');
+        const snapshots = histories.get(folder.uri.fsPath)!.filter(snapshot => snapshot.file === file);
+
+        plans.push({
+          filePath: plan.filePath,
+          relativePath: getWorkspaceRelativePath(fileUri),
+          title: plan.title,
+          points: toHistoryPoints(snapshots, plan.states),
+          completed: getCompletedTasks(snapshots, plan.states, weekStart)
+        });
+      }
+
+      const message: UpdateHistoryMessage = {
+        type: MessageType.UpdateHistory,
+        plans,
+        weekStart: weekStart.toISOString()
+      };
+      await this._panel.webview.postMessage(message);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this._outputChannel.appendLine(`[History] ERROR updating charts: ${errorMsg}`);
+    }
+  }
+
+  private _show(): void {
+    if (this._panel) {
+      this._panel.reveal();
+      return;
+    }
+
+    this._outputChannel.appendLine('[History] Opening progress history');
+    this._panel = vscode.window.createWebviewPanel(
+      PlanHistoryPanel.viewType,
+      'Plan History',
+      vscode.ViewColumn.Active,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        localResourceRoots: [
+          vscode.Uri.joinPath(this._extensionUri, 'webview')
+        ]
+      }
+    );
+    this._panel.webview.html = this._getHtmlForWebview(this._panel.webview);
+
+    // Both listeners go away with the panel
+    this._panel.webview.onDidReceiveMessage(message => this._handleMessage(message));
+    this._panel.onDidDispose(() => {
+      this._panel = undefined;
+    });
+  }
+
+  private async _handleMessage(message: any): Promise<void> {
+    switch (message.type) {
+      case MessageType.HistoryReady:
+        await this.update();
+        break;
+
+      case MessageType.SelectFile:
+        // Show the plan in the sidebar
+        await this._provider.selectPlanFile(vscode.Uri.file(message.filePath));
+        await vscode.commands.executeCommand(`${getTasksViewId()}.focus`);
+        break;
+
+      default:
+        this._outputChannel.appendLine(`[History] Unknown message type: ${message.type}`);
+    }
+  }
+
+  private _getHtmlForWebview(webview: vscode.Webview): string {
+    const scriptUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(this._extensionUri, 'webview', 'history.js')
+    );
+    const styleUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(this._extensionUri, 'webview', 'history.css')
+    );
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <link href="${styleUri}" rel="stylesheet">
+  <title>Plan History</title>
+</head>
+<body>
+  <div id="history">
+    <div class="loading">Loading history...</div>
+  </div>
+  <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+  }
+}
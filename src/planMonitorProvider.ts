@@ -1,10 +1,28 @@
 import * as vscode from 'vscode';
-import * as fs from 'fs/promises';
-import { parsePlan } from './planParser';
-import { PlanCache } from './planCache';
-import { findPlanFiles, getWorkspaceRelativePath } from './fileDiscovery';
-import { MessageType, NavigateMessage, UpdateMessage, TaskViewConfig } from './types';
+import { collectTasks, findItemById, parsePlan } from './planParser';
+import { PlanCache, readPlanContent } from './planCache';
+import { DependencyIndex, buildDependencyIndex, resolveDependencies } from './taskDependencies';
+import { resolveStates } from './taskStates';
+import { findPlanFiles, getWorkspaceRelativePath, matchesPlanPatterns } from './fileDiscovery';
+import { MessageType, NavigateMessage, OpenLinkMessage, SetTaskStateMessage, SaveConfigMessage, SaveViewStateMessage, TaskViewConfig, ParsedPlan, PlanSummary, StateCount, CategoryCount, StateDefinition, ItemType, ViewState, DEFAULT_CONFIG, UpdateChangesMessage, CopySubtreeMessage } from './types';
+import { getPlanFilePatterns } from './globUtils';
 import { ConfigManager } from './configManager';
+import { getNextTaskState, setTaskStates } from './taskEditor';
+import { getNonce } from './webviewUtils';
+import { diffPlans } from './planDiff';
+import { listRefs, showFileAtRef } from './gitUtils';
+import { subtreeToMarkdown } from './planExport';
+
+/** Quick pick entry for the git ref to compare a plan with */
+interface RefPickItem extends vscode.QuickPickItem {
+  ref: string;
+}
+
+/** Selected plan and view mode, persisted per workspace */
+interface SelectionState {
+  filePath?: string;
+  viewMode: 'plan' | 'overview';
+}
 
 /**
  * WebviewViewProvider for the Plan Monitor sidebar panel
@@ -17,25 +35,52 @@ import { ConfigManager } from './configManager';
  */
 export class PlanMonitorProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'planMonitorView';
+  private static readonly DOCUMENT_REFRESH_DELAY = 300; // ms after the last keystroke
+  private static readonly SELECTION_STATE_KEY = 'taskPlanner.selection'; // workspaceState keys
+  private static readonly VIEW_STATE_KEY = 'taskPlanner.viewState';
 
   private _view?: vscode.WebviewView;
   private readonly _extensionUri: vscode.Uri;
   private readonly _outputChannel: vscode.OutputChannel;
   private readonly _cache: PlanCache;
-  private _configManager?: ConfigManager;
+  private readonly _workspaceState: vscode.Memento;
+  private _configManagers: Map<string, ConfigManager> = new Map(); // Keyed by folder path
+  private _configs: Map<string, TaskViewConfig> = new Map();        // Keyed by folder path
 
   private _planFiles: vscode.Uri[] = [];
   private _currentFile?: vscode.Uri;
+  private _viewMode: 'plan' | 'overview' = 'plan';
+  private _changesRef?: string;     // Git ref of the "Changes since…" mode, if open
+  private _documentRefreshTimer?: NodeJS.Timeout;
   private _isInitialized = false;
-  private _currentConfig?: TaskViewConfig;
+  private _hasDiscoveredFiles = false;
+  private _dependencyIndex?: Promise<DependencyIndex>;
+
+  private readonly _onDidChangeConfig = new vscode.EventEmitter<void>();
+
+  /** Fires after folder configs were (re)loaded or saved */
+  public readonly onDidChangeConfig = this._onDidChangeConfig.event;
+
+  private readonly _onDidChangePlan = new vscode.EventEmitter<ParsedPlan>();
+
+  /** Fires whenever the plan shown in the sidebar is (re)loaded */
+  public readonly onDidChangePlan = this._onDidChangePlan.event;
+
+  private readonly _onDidRefresh = new vscode.EventEmitter<void>();
+
+  /** Fires after plan files were discovered again (files changed on disk, or a manual refresh) */
+  public readonly onDidRefresh = this._onDidRefresh.event;
 
   constructor(
     extensionUri: vscode.Uri,
-    outputChannel: vscode.OutputChannel
+    outputChannel: vscode.OutputChannel,
+    cache: PlanCache,
+    workspaceState: vscode.Memento
   ) {
     this._extensionUri = extensionUri;
     this._outputChannel = outputChannel;
-    this._cache = new PlanCache(outputChannel);
+    this._cache = cache;
+    this._workspaceState = workspaceState;
 
     this._outputChannel.appendLine('[PlanMonitor] Provider created');
   }
@@ -59,7 +104,8 @@ export class PlanMonitorProvider implements vscode.WebviewViewProvider {
       webviewView.webview.options = {
         enableScripts: true,
         localResourceRoots: [
-          vscode.Uri.joinPath(this._extensionUri, 'webview')
+          vscode.Uri.joinPath(this._extensionUri, 'webview'),
+          vscode.Uri.joinPath(this._extensionUri, 'node_modules', '@vscode/codicons', 'dist')
         ]
       };
 
@@ -108,18 +154,13 @@ export class PlanMonitorProvider implements vscode.WebviewViewProvider {
     try {
       this._outputChannel.appendLine('[PlanMonitor] Starting initialization...');
 
-      // Initialize config manager
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-      if (workspaceFolder) {
-        this._configManager = new ConfigManager(workspaceFolder);
-        this._currentConfig = await this._configManager.readConfig();
-        this._outputChannel.appendLine(`[PlanMonitor] Config loaded: ${this._currentConfig.exclusions.length} exclusions`);
-      }
+      // Initialize one config manager per workspace folder
+      await this._loadConfigs();
 
       // Show loading state
       this._postMessage({
         type: 'loading',
-        message: 'Discovering PLAN*.md files...'
+        message: 'Discovering plan files...'
       });
 
       // Discover all plan files
@@ -127,15 +168,35 @@ export class PlanMonitorProvider implements vscode.WebviewViewProvider {
 
       this._outputChannel.appendLine(`[PlanMonitor] Found ${this._planFiles.length} plan files`);
 
-      // Load first file if available
-      if (this._planFiles.length > 0) {
-        this._outputChannel.appendLine(`[PlanMonitor] Loading first file: ${this._planFiles[0].fsPath}`);
-        await this._loadPlan(this._planFiles[0]);
+      // Restore expanded nodes, filter and scroll position from the last session
+      const viewState = this._workspaceState.get<ViewState>(PlanMonitorProvider.VIEW_STATE_KEY);
+      if (viewState) {
+        this._postMessage({
+          type: MessageType.RestoreViewState,
+          state: viewState
+        });
+      }
+
+      // Reopen the last plan (or overview), falling back to the first file
+      const selection = this._workspaceState.get<SelectionState>(PlanMonitorProvider.SELECTION_STATE_KEY);
+      const lastFile = selection?.filePath && this._planFiles.find(file => file.fsPath === selection.filePath);
+
+      if (lastFile) {
+        this._currentFile = lastFile;
+      }
+
+      if (this._planFiles.length > 0 && selection?.viewMode === 'overview') {
+        this._outputChannel.appendLine('[PlanMonitor] Restoring overview');
+        await this._loadOverview();
+      } else if (this._planFiles.length > 0) {
+        const fileUri = lastFile || this._planFiles[0];
+        this._outputChannel.appendLine(`[PlanMonitor] Loading ${lastFile ? 'last' : 'first'} file: ${fileUri.fsPath}`);
+        await this._loadPlan(fileUri);
       } else {
         this._outputChannel.appendLine('[PlanMonitor] No plan files found');
         this._postMessage({
           type: 'empty',
-          message: 'No PLAN*.md files found in workspace'
+          message: 'No plan files found in workspace'
         });
       }
 
@@ -155,23 +216,71 @@ export class PlanMonitorProvider implements vscode.WebviewViewProvider {
   }
 
   /**
-   * Discover all PLAN*.md files in the workspace
+   * Create config managers and read .codr/task-planner.json for every workspace folder
+   */
+  private async _loadConfigs(): Promise<void> {
+    this._configManagers.clear();
+    this._configs.clear();
+
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      const manager = new ConfigManager(folder);
+      const config = await manager.readConfig();
+
+      this._configManagers.set(folder.uri.fsPath, manager);
+      this._configs.set(folder.uri.fsPath, config);
+      this._outputChannel.appendLine(`[PlanMonitor] Config loaded for ${folder.name}: ${config.include.length} patterns, ${config.exclusions.length} exclusions`);
+    }
+
+    this._onDidChangeConfig.fire();
+  }
+
+  /**
+   * Gets the config of the workspace folder that contains a file
+   */
+  public getConfig(uri: vscode.Uri): TaskViewConfig {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    return (folder && this._configs.get(folder.uri.fsPath)) || DEFAULT_CONFIG;
+  }
+
+  /**
+   * Gets the built-in plus configured task states for a file's folder
+   */
+  public getStates(uri: vscode.Uri): StateDefinition[] {
+    return resolveStates(this.getConfig(uri).states);
+  }
+
+  /**
+   * Gets the plan file glob patterns configured for a workspace folder
+   */
+  public getFilePatterns(folder: vscode.WorkspaceFolder): string[] {
+    return getPlanFilePatterns(this._configs.get(folder.uri.fsPath) || DEFAULT_CONFIG);
+  }
+
+  /**
+   * Discover all PLAN*.md files in every workspace folder
    */
   private async _discoverPlanFiles(): Promise<void> {
     try {
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+      const folders = vscode.workspace.workspaceFolders || [];
 
-      if (!workspaceFolder) {
+      if (folders.length === 0) {
         this._outputChannel.appendLine('[PlanMonitor] No workspace folder found');
         this._planFiles = [];
         return;
       }
 
-      this._outputChannel.appendLine(`[PlanMonitor] Searching in: ${workspaceFolder.uri.fsPath}`);
+      const planFiles: vscode.Uri[] = [];
 
-      // Pass exclusions from config to file discovery
-      const exclusions = this._currentConfig?.exclusions || [];
-      this._planFiles = await findPlanFiles(workspaceFolder, exclusions);
+      for (const folder of folders) {
+        this._outputChannel.appendLine(`[PlanMonitor] Searching in: ${folder.uri.fsPath}`);
+
+        // Pass patterns and exclusions from this folder's config to file discovery
+        const exclusions = this._configs.get(folder.uri.fsPath)?.exclusions || [];
+        planFiles.push(...await findPlanFiles(folder, exclusions, this.getFilePatterns(folder)));
+      }
+
+      this._planFiles = planFiles;
+      this._hasDiscoveredFiles = true;
 
       // Log each found file
       this._planFiles.forEach((file, index) => {
@@ -191,28 +300,13 @@ export class PlanMonitorProvider implements vscode.WebviewViewProvider {
   private async _loadPlan(fileUri: vscode.Uri): Promise<void> {
     try {
       this._currentFile = fileUri;
-      const filePath = fileUri.fsPath;
-
-      this._outputChannel.appendLine(`[PlanMonitor] Loading plan: ${filePath}`);
-
-      // Check cache first
-      let plan = await this._cache.get(filePath);
+      this._viewMode = 'plan';
+      this._saveSelection();
 
-      if (!plan) {
-        this._outputChannel.appendLine(`[PlanMonitor] Cache miss, parsing file`);
+      this._outputChannel.appendLine(`[PlanMonitor] Loading plan: ${fileUri.fsPath}`);
 
-        // Read and parse file
-        const content = await fs.readFile(filePath, 'utf-8');
-        this._outputChannel.appendLine(`[PlanMonitor] File read, ${content.length} bytes`);
-
-        plan = parsePlan(content, filePath);
-        this._outputChannel.appendLine(`[PlanMonitor] Parsed ${plan.totalCount} tasks`);
-
-        // Cache the result
-        await this._cache.set(filePath, plan);
-      } else {
-        this._outputChannel.appendLine(`[PlanMonitor] Cache hit`);
-      }
+      const plan = await this.resolveDependencies(await this._getPlan(fileUri));
+      this._onDidChangePlan.fire(plan);
 
       // Send plan to webview
       this._postMessage({
@@ -223,6 +317,10 @@ export class PlanMonitorProvider implements vscode.WebviewViewProvider {
       // Send file list
       this._sendFileList();
 
+      if (this._changesRef) {
+        await this._loadChanges(plan, this._changesRef);
+      }
+
       this._outputChannel.appendLine(`[PlanMonitor] Plan loaded successfully`);
 
     } catch (error) {
@@ -236,6 +334,195 @@ export class PlanMonitorProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  /**
+   * Compare the plan with its version at a git ref and send the task changes
+   * Runs on every reload while the mode is open, so the list follows edits and new commits.
+   */
+  private async _loadChanges(plan: ParsedPlan, ref: string): Promise<void> {
+    const message: UpdateChangesMessage = {
+      type: MessageType.UpdateChanges,
+      filePath: plan.filePath,
+      ref,
+      changes: []
+    };
+
+    try {
+      // A plan that didn't exist yet compares as empty: every task was added
+      const content = await showFileAtRef(plan.filePath, ref);
+      const previous = parsePlan(content ?? '', plan.filePath, plan.states);
+      message.changes = diffPlans(previous, plan);
+
+      this._outputChannel.appendLine(`[PlanMonitor] ${message.changes.length} task changes since ${ref}`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this._outputChannel.appendLine(`[PlanMonitor] ERROR comparing with ${ref}: ${errorMsg}`);
+      message.error = errorMsg;
+    }
+
+    this._postMessage(message);
+  }
+
+  /**
+   * Ask for the branch, tag or commit to compare a plan with
+   * Anything typed that isn't in the list (e.g. "HEAD~3") is used as is.
+   */
+  private async _pickRef(fileUri: vscode.Uri): Promise<string | undefined> {
+    const items: RefPickItem[] = [
+      { label: '$(git-commit) HEAD', description: 'Last commit', ref: 'HEAD' }
+    ];
+
+    try {
+      for (const gitRef of await listRefs(fileUri.fsPath)) {
+        const icon = gitRef.kind === 'branch' ? 'git-branch' : gitRef.kind === 'tag' ? 'tag' : 'git-commit';
+        items.push({ label: `$(${icon}) ${gitRef.ref}`, description: gitRef.description ?? gitRef.kind, ref: gitRef.ref });
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(`Cannot compare plan: ${errorMsg}`);
+      return undefined;
+    }
+
+    const quickPick = vscode.window.createQuickPick<RefPickItem>();
+    quickPick.title = 'Show Changes Since...';
+    quickPick.placeholder = 'Branch, tag or commit to compare the plan with';
+    quickPick.items = items;
+    quickPick.matchOnDescription = true;
+
+    return new Promise(resolve => {
+      quickPick.onDidAccept(() => {
+        resolve(quickPick.selectedItems[0]?.ref ?? (quickPick.value.trim() || undefined));
+        quickPick.hide();
+      });
+      quickPick.onDidHide(() => {
+        resolve(undefined);
+        quickPick.dispose();
+      });
+      quickPick.show();
+    });
+  }
+
+  /**
+   * Get the parsed plan for a file, parsing it only on cache miss
+   * Open editor buffers win over the file on disk, so unsaved edits show up.
+   */
+  private async _getPlan(fileUri: vscode.Uri): Promise<ParsedPlan> {
+    return this._cache.load(fileUri.fsPath);
+  }
+
+  /**
+   * Copy of a plan with prerequisites and dependents linked across every discovered plan
+   * The other plans are indexed once per watcher change, not on every keystroke.
+   */
+  public async resolveDependencies(plan: ParsedPlan): Promise<ParsedPlan> {
+    if (!this._dependencyIndex) {
+      this._dependencyIndex = this._buildDependencyIndex();
+    }
+
+    const resolved = resolveDependencies(plan, await this._dependencyIndex);
+    for (const cycle of resolved.cycles) {
+      this._outputChannel.appendLine(`[PlanMonitor] Dependency cycle: ${cycle.join(' → ')}`);
+    }
+    return resolved.plan;
+  }
+
+  private async _buildDependencyIndex(): Promise<DependencyIndex> {
+    const plans: ParsedPlan[] = [];
+
+    for (const fileUri of await this.getPlanFiles()) {
+      try {
+        plans.push(await this._getPlan(fileUri));
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        this._outputChannel.appendLine(`[PlanMonitor] Skipping ${fileUri.fsPath} for dependencies: ${errorMsg}`);
+      }
+    }
+
+    return buildDependencyIndex(plans);
+  }
+
+  /**
+   * Parse every discovered plan and show the "All plans" overview
+   */
+  private async _loadOverview(): Promise<void> {
+    try {
+      this._viewMode = 'overview';
+      this._saveSelection();
+      this._outputChannel.appendLine(`[PlanMonitor] Loading overview of ${this._planFiles.length} plans`);
+
+      const plans: PlanSummary[] = [];
+      const stateCount: StateCount = {};
+      const categoryCount: CategoryCount = { open: 0, done: 0, active: 0, blocked: 0 };
+      const states: StateDefinition[] = [];
+      let totalCount = 0;
+
+      for (const fileUri of this._planFiles) {
+        try {
+          const plan = await this._getPlan(fileUri);
+
+          plans.push({
+            filePath: plan.filePath,
+            relativePath: getWorkspaceRelativePath(fileUri),
+            folder: vscode.workspace.getWorkspaceFolder(fileUri)?.name || '',
+            title: plan.title,
+            totalCount: plan.totalCount,
+            stateCount: plan.stateCount,
+            categoryCount: plan.categoryCount
+          });
+
+          totalCount += plan.totalCount;
+          Object.entries(plan.stateCount).forEach(([state, count]) => {
+            stateCount[state] = (stateCount[state] || 0) + count;
+          });
+          (Object.keys(categoryCount) as Array<keyof CategoryCount>).forEach(key => {
+            categoryCount[key] += plan.categoryCount[key];
+          });
+
+          // Folders may define different states; list each id once
+          plan.states
+            .filter(state => !states.some(known => known.id === state.id))
+            .forEach(state => states.push(state));
+        } catch (error) {
+          // Skip unreadable files, keep the rest of the overview
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          this._outputChannel.appendLine(`[PlanMonitor] Skipping ${fileUri.fsPath} in overview: ${errorMsg}`);
+        }
+      }
+
+      this._postMessage({
+        type: MessageType.UpdateOverview,
+        plans,
+        totalCount,
+        stateCount,
+        categoryCount,
+        states
+      });
+
+      this._sendFileList();
+
+      this._outputChannel.appendLine(`[PlanMonitor] Overview loaded: ${totalCount} tasks`);
+
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this._outputChannel.appendLine(`[PlanMonitor] ERROR loading overview: ${errorMsg}`);
+
+      this._postMessage({
+        type: 'error',
+        message: `Failed to load overview: ${errorMsg}`
+      });
+    }
+  }
+
+  /**
+   * Remember the selected plan and view mode for the next session
+   */
+  private _saveSelection(): void {
+    const selection: SelectionState = {
+      filePath: this._currentFile?.fsPath,
+      viewMode: this._viewMode
+    };
+    this._workspaceState.update(PlanMonitorProvider.SELECTION_STATE_KEY, selection);
+  }
+
   /**
    * Send list of available files to webview
    */
@@ -243,12 +530,14 @@ export class PlanMonitorProvider implements vscode.WebviewViewProvider {
     const fileList = this._planFiles.map(uri => ({
       path: uri.fsPath,
       relativePath: getWorkspaceRelativePath(uri),
+      folder: vscode.workspace.getWorkspaceFolder(uri)?.name || '',
       isCurrent: this._currentFile?.fsPath === uri.fsPath
     }));
 
     this._postMessage({
       type: 'fileList',
-      files: fileList
+      files: fileList,
+      isOverview: this._viewMode === 'overview'
     });
   }
 
@@ -269,12 +558,43 @@ export class PlanMonitorProvider implements vscode.WebviewViewProvider {
           await this._loadPlan(fileUri);
           break;
 
+        case MessageType.SaveViewState:
+          await this._workspaceState.update(PlanMonitorProvider.VIEW_STATE_KEY, (message as SaveViewStateMessage).state);
+          break;
+
+        case MessageType.ShowOverview:
+          await this._loadOverview();
+          break;
+
         case MessageType.OpenSettings:
           await this._openSettings();
           break;
 
         case MessageType.SaveConfig:
-          await this._saveConfig(message.config);
+          await this._saveConfig(message as SaveConfigMessage);
+          break;
+
+        case MessageType.SetTaskState:
+          await this._setTaskState(message as SetTaskStateMessage);
+          break;
+
+        case MessageType.OpenLink:
+          await this._openLink(message as OpenLinkMessage);
+          break;
+
+        case MessageType.ShowChanges:
+          await this.showChanges();
+          break;
+
+        case MessageType.CopySubtree:
+          await this._copySubtree(message as CopySubtreeMessage);
+          break;
+
+        case MessageType.CloseChanges:
+          this._changesRef = undefined;
+          if (this._currentFile) {
+            await this._loadPlan(this._currentFile);
+          }
           break;
 
         default:
@@ -309,6 +629,145 @@ export class PlanMonitorProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  /**
+   * Open a link from task text: web and mail links in the browser, anything
+   * else as a workspace file, at `#L42` or at the task with that anchor
+   */
+  private async _openLink(message: OpenLinkMessage): Promise<void> {
+    const { target } = message;
+
+    try {
+      if (/^(https?|mailto):/i.test(target)) {
+        await vscode.env.openExternal(vscode.Uri.parse(target));
+        return;
+      }
+      if (/^[a-z][\w+.-]*:/i.test(target)) {
+        this._outputChannel.appendLine(`[PlanMonitor] Ignoring link with unsupported scheme: ${target}`);
+        return;
+      }
+
+      const [linkPath, fragment = ''] = target.split('#', 2);
+      const uri = await this._resolveLinkPath(vscode.Uri.file(message.filePath), decodeURIComponent(linkPath));
+      if (!uri) {
+        vscode.window.showWarningMessage(`File not found: ${linkPath}`);
+        return;
+      }
+
+      const line = await this._findLinkLine(uri, fragment);
+      this._outputChannel.appendLine(`[PlanMonitor] Opening link ${uri.fsPath}:${line}`);
+
+      await vscode.window.showTextDocument(uri, {
+        selection: new vscode.Range(line, 0, line, 0)
+      });
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this._outputChannel.appendLine(`[PlanMonitor] ERROR opening link: ${errorMsg}`);
+      vscode.window.showErrorMessage(`Failed to open link: ${errorMsg}`);
+    }
+  }
+
+  /**
+   * Resolve a link path against the plan's folder, then the workspace folder
+   * @returns File the link points at, or undefined if it doesn't exist
+   */
+  private async _resolveLinkPath(planUri: vscode.Uri, linkPath: string): Promise<vscode.Uri | undefined> {
+    if (!linkPath) {
+      return planUri;
+    }
+
+    const folder = vscode.workspace.getWorkspaceFolder(planUri);
+    const candidates = [
+      vscode.Uri.joinPath(planUri, '..', linkPath),
+      ...(folder ? [vscode.Uri.joinPath(folder.uri, linkPath)] : [])
+    ];
+
+    for (const candidate of candidates) {
+      try {
+        await vscode.workspace.fs.stat(candidate);
+        return candidate;
+      } catch {
+        // Try the next location
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Line a link fragment points at: `L42` / `L42-L50`, or a task anchor in a markdown file
+   */
+  private async _findLinkLine(uri: vscode.Uri, fragment: string): Promise<number> {
+    const lineMatch = /^L(\d+)(?:-L?\d+)?$/.exec(fragment);
+    if (lineMatch) {
+      return Math.max(0, parseInt(lineMatch[1], 10) - 1);
+    }
+
+    if (fragment && uri.fsPath.toLowerCase().endsWith('.md')) {
+      const plan = await this._cache.load(uri.fsPath);
+      const task = collectTasks(plan.tasks).find(item => item.anchor === fragment);
+      if (task) {
+        return task.line;
+      }
+    }
+
+    return 0;
+  }
+
+  /**
+   * Change a task's checkbox in the plan file
+   */
+  private async _setTaskState(message: SetTaskStateMessage): Promise<void> {
+    try {
+      // The shown plan may lag behind the buffer while a refresh is debounced
+      const plan = await this._getPlan(vscode.Uri.file(message.filePath));
+      const item = findItemById(plan.tasks, message.id);
+
+      if (!item || item.type !== ItemType.Task || !item.state || !item.checkbox) {
+        throw new Error('Task not found in plan');
+      }
+
+      const state = message.state ?? getNextTaskState(item.state, plan.states);
+      this._outputChannel.appendLine(`[PlanMonitor] Setting task at line ${item.line} to ${state}`);
+
+      const applied = await setTaskStates(vscode.Uri.file(message.filePath), [
+        { checkbox: item.checkbox, state }
+      ], plan.states);
+
+      if (!applied) {
+        throw new Error('Edit was rejected');
+      }
+
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this._outputChannel.appendLine(`[PlanMonitor] ERROR setting task state: ${errorMsg}`);
+      vscode.window.showErrorMessage(`Failed to update task: ${errorMsg}`);
+    }
+  }
+
+  /**
+   * Copy a heading or task and everything under it to the clipboard as Markdown
+   */
+  private async _copySubtree(message: CopySubtreeMessage): Promise<void> {
+    try {
+      // Lines are copied from the source, so metadata and notes stay as written
+      const content = await readPlanContent(message.filePath);
+      const plan = await this._getPlan(vscode.Uri.file(message.filePath));
+      const item = findItemById(plan.tasks, message.id);
+
+      if (!item) {
+        throw new Error('Item not found in plan');
+      }
+
+      await vscode.env.clipboard.writeText(subtreeToMarkdown(item, content));
+      vscode.window.setStatusBarMessage(`Copied "${item.text}" as Markdown`, 3000);
+
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this._outputChannel.appendLine(`[PlanMonitor] ERROR copying subtree: ${errorMsg}`);
+      vscode.window.showErrorMessage(`Failed to copy: ${errorMsg}`);
+    }
+  }
+
   /**
    * Open settings screen in webview
    */
@@ -316,15 +775,25 @@ export class PlanMonitorProvider implements vscode.WebviewViewProvider {
     try {
       this._outputChannel.appendLine('[PlanMonitor] Opening settings');
 
-      // Reload config to ensure we have the latest
-      if (this._configManager) {
-        this._currentConfig = await this._configManager.readConfig();
+      // Settings apply to the folder that owns the current plan
+      const folder = this._getSettingsFolder();
+      const manager = folder && this._configManagers.get(folder.uri.fsPath);
+
+      if (!folder || !manager) {
+        throw new Error('No workspace folder open');
       }
 
+      // Reload config to ensure we have the latest
+      const config = await manager.readConfig();
+      this._configs.set(folder.uri.fsPath, config);
+
       // Send config to webview
       this._postMessage({
         type: MessageType.UpdateConfig,
-        config: this._currentConfig
+        config,
+        folderPath: folder.uri.fsPath,
+        folderName: folder.name,
+        isMultiRoot: this._configManagers.size > 1
       });
 
     } catch (error) {
@@ -337,17 +806,20 @@ export class PlanMonitorProvider implements vscode.WebviewViewProvider {
   /**
    * Save configuration and refresh view
    */
-  private async _saveConfig(config: TaskViewConfig): Promise<void> {
+  private async _saveConfig(message: SaveConfigMessage): Promise<void> {
     try {
-      this._outputChannel.appendLine('[PlanMonitor] Saving configuration');
+      const { config, folderPath } = message;
+      this._outputChannel.appendLine(`[PlanMonitor] Saving configuration for ${folderPath}`);
 
-      if (!this._configManager) {
+      const manager = this._configManagers.get(folderPath);
+      if (!manager) {
         throw new Error('Config manager not initialized');
       }
 
       // Save config to disk
-      await this._configManager.writeConfig(config);
-      this._currentConfig = config;
+      await manager.writeConfig(config);
+      this._configs.set(folderPath, config);
+      this._onDidChangeConfig.fire();
 
       this._outputChannel.appendLine(`[PlanMonitor] Config saved: ${config.exclusions.length} exclusions`);
 
@@ -363,6 +835,134 @@ export class PlanMonitorProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  /**
+   * Workspace folder whose config the settings screen edits
+   */
+  private _getSettingsFolder(): vscode.WorkspaceFolder | undefined {
+    const currentFolder = this._currentFile && vscode.workspace.getWorkspaceFolder(this._currentFile);
+    return currentFolder || vscode.workspace.workspaceFolders?.[0];
+  }
+
+  /**
+   * Reload configs and files after workspace folders or config files changed
+   */
+  public async reloadConfigs(): Promise<void> {
+    if (!this._isInitialized) {
+      return;
+    }
+
+    try {
+      this._outputChannel.appendLine('[PlanMonitor] Reloading configs...');
+      await this._loadConfigs();
+      await this.refreshView();
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this._outputChannel.appendLine(`[PlanMonitor] ERROR reloading configs: ${errorMsg}`);
+    }
+  }
+
+  /**
+   * Plan file currently selected in the sidebar
+   */
+  public get currentFile(): vscode.Uri | undefined {
+    return this._currentFile;
+  }
+
+  /**
+   * Every discovered plan file
+   * Runs discovery first when the sidebar hasn't been opened yet.
+   */
+  public async getPlanFiles(): Promise<vscode.Uri[]> {
+    if (!this._isInitialized && !this._hasDiscoveredFiles) {
+      if (this._configs.size === 0) {
+        await this._loadConfigs();
+      }
+      await this._discoverPlanFiles();
+    }
+
+    return this._planFiles;
+  }
+
+  /**
+   * Show a plan in the sidebar, or the "All plans" overview without a file
+   */
+  public async selectPlanFile(fileUri?: vscode.Uri): Promise<void> {
+    if (fileUri) {
+      await this._loadPlan(fileUri);
+    } else {
+      await this._loadOverview();
+    }
+  }
+
+  /**
+   * Switch the current plan to "Changes since…" mode
+   * @param ref Git ref to compare with; asked for when omitted
+   */
+  public async showChanges(ref?: string): Promise<void> {
+    const fileUri = this._currentFile;
+    if (!fileUri) {
+      vscode.window.showInformationMessage('Select a plan file first');
+      return;
+    }
+
+    const picked = ref ?? await this._pickRef(fileUri);
+    if (!picked) {
+      return;
+    }
+
+    this._changesRef = picked;
+    await this._loadPlan(fileUri);
+  }
+
+  /**
+   * Whether a file is one of the discovered plan files
+   */
+  public isPlanFile(uri: vscode.Uri): boolean {
+    return this._planFiles.some(file => file.fsPath === uri.fsPath);
+  }
+
+  /**
+   * Whether an open document is a plan file
+   * Falls back to the folder's include patterns when discovery hasn't run yet.
+   */
+  public isPlanDocument(document: vscode.TextDocument): boolean {
+    if (this.isPlanFile(document.uri)) {
+      return true;
+    }
+
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    return !!folder && matchesPlanPatterns(document, folder, this.getFilePatterns(folder));
+  }
+
+  /**
+   * Re-parse after an editor buffer changed, debounced while typing
+   * Only the files on screen are re-read; discovery is left to the watcher.
+   */
+  public scheduleDocumentRefresh(uri: vscode.Uri): void {
+    if (!this._isInitialized || !this.isPlanFile(uri)) {
+      return;
+    }
+
+    if (this._viewMode === 'plan' && this._currentFile?.fsPath !== uri.fsPath) {
+      return;
+    }
+
+    if (this._documentRefreshTimer) {
+      clearTimeout(this._documentRefreshTimer);
+    }
+
+    this._documentRefreshTimer = setTimeout(() => {
+      this._documentRefreshTimer = undefined;
+      this._outputChannel.appendLine(`[PlanMonitor] Buffer changed: ${uri.fsPath}`);
+
+      if (this._viewMode === 'overview') {
+        this._loadOverview();
+      } else if (this._currentFile) {
+        this._loadPlan(this._currentFile);
+      }
+    }, PlanMonitorProvider.DOCUMENT_REFRESH_DELAY);
+  }
+
   /**
    * Refresh the view (called by file watcher)
    */
@@ -370,8 +970,17 @@ export class PlanMonitorProvider implements vscode.WebviewViewProvider {
     try {
       this._outputChannel.appendLine('[PlanMonitor] Refreshing view...');
 
-      // Re-discover files
+      // Re-discover files; dependencies are indexed again on next use
       await this._discoverPlanFiles();
+      this._dependencyIndex = undefined;
+      this._onDidRefresh.fire();
+
+      // Overview parses every file; content hashes skip the unchanged ones
+      if (this._viewMode === 'overview' && this._planFiles.length > 0) {
+        await this._loadOverview();
+        this._outputChannel.appendLine('[PlanMonitor] Refresh complete');
+        return;
+      }
 
       // Check if current file still exists
       if (this._currentFile) {
@@ -379,15 +988,14 @@ export class PlanMonitorProvider implements vscode.WebviewViewProvider {
           f => f.fsPath === this._currentFile!.fsPath
         );
 
-        if (!stillExists && this._planFiles.length > 0) {
+        if (!stillExists) {
           this._outputChannel.appendLine('[PlanMonitor] Current file deleted, switching to first available');
           this._currentFile = this._planFiles[0];
         }
       }
 
-      // Reload current file
+      // Reload current file (content hash decides whether it is re-parsed)
       if (this._currentFile) {
-        this._cache.invalidate(this._currentFile.fsPath);
         await this._loadPlan(this._currentFile);
       } else if (this._planFiles.length > 0) {
         // No current file but files exist - load first one
@@ -396,7 +1004,7 @@ export class PlanMonitorProvider implements vscode.WebviewViewProvider {
         // No files at all
         this._postMessage({
           type: 'empty',
-          message: 'No PLAN*.md files found in workspace'
+          message: 'No plan files found in workspace'
         });
       }
 
@@ -424,6 +1032,10 @@ export class PlanMonitorProvider implements vscode.WebviewViewProvider {
    */
   private _handleDispose(): void {
     this._outputChannel.appendLine('[PlanMonitor] View disposed');
+    if (this._documentRefreshTimer) {
+      clearTimeout(this._documentRefreshTimer);
+      this._documentRefreshTimer = undefined;
+    }
     this._view = undefined;
     this._isInitialized = false;
   }
@@ -446,7 +1058,7 @@ export class PlanMonitorProvider implements vscode.WebviewViewProvider {
     );
 
     // Generate nonce for CSP
-    const nonce = this._getNonce();
+    const nonce = getNonce();
 
     return `<!DOCTYPE html>
 <html lang="en">
@@ -466,16 +1078,4 @@ export class PlanMonitorProvider implements vscode.WebviewViewProvider {
 </body>
 </html>`;
   }
-
-  /**
-   * Generate a cryptographically random nonce for CSP
-   */
-  private _getNonce(): string {
-    let text = '';
-    const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-    for (let i = 0; i < 32; i++) {
-      text += possible.charAt(Math.floor(Math.random() * possible.length));
-    }
-    return text;
-  }
 }
@@ -1,14 +1,25 @@
 import MarkdownIt from 'markdown-it';
+import Token from 'markdown-it/lib/token';
 import taskLists from 'markdown-it-task-lists';
-import { HierarchyItem, ItemType, TaskState, AggregatedStatus, ParsedPlan } from './types';
+import { HierarchyItem, ItemType, AggregatedStatus, ParsedPlan, CheckboxRange, PlanProblem, PlanProblemCode, StateCategory, StateDefinition, DEFAULT_STATES } from './types';
+import { extractTaskMetadata, findAnchorLinks } from './taskMetadata';
+import { assignStableIds, resolveTaskReference } from './taskIdentity';
+import { countTaskCategories, countTaskStates, getStateByMarker, getStateCategory } from './taskStates';
+
+/** Matches the list marker and checkbox at the start of a task line */
+const CHECKBOX_LINE_REGEX = /^(\s*(?:>\s*)*(?:[-*+]|\d+[.)])\s+\[)(.)\]/;
+
+/** Matches a single-character checkbox at the start of a list item's text */
+const MARKER_REGEX = /^\[([^\]])\](?=\s|$)/;
 
 /**
  * Parses markdown content to extract tasks and their states
  * @param content Markdown file content
  * @param filePath Path to the source file
+ * @param states Known task states (built-in plus configured)
  * @returns ParsedPlan object with hierarchical task structure
  */
-export function parsePlan(content: string, filePath: string): ParsedPlan {
+export function parsePlan(content: string, filePath: string, states: StateDefinition[] = DEFAULT_STATES): ParsedPlan {
   // Initialize markdown-it with task lists plugin
   const md = new MarkdownIt();
   md.use(taskLists, {
@@ -21,12 +32,11 @@ export function parsePlan(content: string, filePath: string): ParsedPlan {
 
   // Parse content to tokens
   const tokens = md.parse(content, {});
-
-  console.log('[PlanParser] Total tokens:', tokens.length);
-  console.log('[PlanParser] First 10 tokens:', tokens.slice(0, 10).map(t => ({ type: t.type, content: t.content })));
+  const lines = content.split('\n');
 
   // Extract items (headings + tasks) from token stream
   const flatItems: Array<{ item: HierarchyItem; level: number }> = [];
+  const problems: PlanProblem[] = [];
   let listDepth = 0; // Track nested list depth
   let lineCounter = 0;
 
@@ -44,12 +54,6 @@ export function parsePlan(content: string, filePath: string): ParsedPlan {
           const headingText = contentToken.content;
           const lineNumber = token.map ? token.map[0] : lineCounter;
 
-          console.log('[PlanParser] Adding heading:', {
-            text: headingText,
-            line: lineNumber,
-            level: headingLevel
-          });
-
           flatItems.push({
             item: {
               id: `${filePath}:${lineNumber}`,
@@ -79,7 +83,7 @@ export function parsePlan(content: string, filePath: string): ParsedPlan {
 
       if (contentToken && contentToken.type === 'inline' && contentToken.children) {
         // Detect task state from token structure
-        let state: TaskState | null = null;
+        let state: string | null = null;
         let text = '';
 
         // Check if it's a standard task-list-item (processed by plugin)
@@ -96,39 +100,39 @@ export function parsePlan(content: string, filePath: string): ParsedPlan {
           );
 
           if (inputChild) {
-            if (inputChild.content.includes('checked=""')) {
-              state = TaskState.Done;
-            } else {
-              state = TaskState.Pending;
-            }
+            const marker = inputChild.content.includes('checked=""') ? 'x' : ' ';
+            state = getStateByMarker(states, marker)?.id ?? null;
           }
 
-          // Extract text from non-html tokens only
-          text = contentToken.children
-            .filter(c => c.type !== 'html_inline')
-            .map(c => c.content)
-            .join('')
-            .trim();
+          // The plugin has already taken the marker off the inline source
+          text = contentToken.content.trim();
         } else {
-          // Not processed by plugin - check for custom checkboxes
+          // Not processed by plugin - look the marker up in the state definitions
           const fullText = contentToken.content;
+          const marker = MARKER_REGEX.exec(fullText);
+          const definition = marker ? getStateByMarker(states, marker[1]) : undefined;
 
-          if (fullText.match(/^\[-\]/)) {
-            state = TaskState.Incomplete;
-            text = fullText.replace(/^\[-\]\s*/, '').trim();
-          } else if (fullText.match(/^\[>\]/)) {
-            state = TaskState.InProgress;
-            text = fullText.replace(/^\[>\]\s*/, '').trim();
-          } else if (fullText.match(/^\[!\]/)) {
-            state = TaskState.Blocked;
-            text = fullText.replace(/^\[!\]\s*/, '').trim();
+          if (marker && definition) {
+            state = definition.id;
+            text = fullText.slice(marker[0].length).trim();
           }
           // If no match, state remains null (not a checkbox)
         }
 
+        // Pull @assignee, #tag, due: and !priority tokens out of the text
+        const metadata = extractTaskMetadata(text);
+        const plainText = toPlainText(md, metadata.text);
+
+        // Prerequisites: after:#id tokens and links to other tasks' anchors
+        const dependsOn = Array.from(new Set(
+          [...metadata.after, ...findAnchorLinks(contentToken.content)]
+            .map(reference => resolveTaskReference(filePath, reference))
+        ));
+
         // Only add if we found a valid checkbox state
-        if (state !== null && text) {
+        if (state !== null && plainText) {
           const lineNumber = token.map ? token.map[0] : lineCounter;
+          const notes = findTaskNotes(tokens, i, lines, states);
 
           // Find the closest heading before this task
           // Look backwards through flatItems to find the last heading
@@ -143,29 +147,40 @@ export function parsePlan(content: string, filePath: string): ParsedPlan {
           // Task level = heading level + list depth
           const taskLevel = headingLevel + listDepth;
 
-          console.log('[PlanParser] Adding task:', {
-            text,
-            state,
-            line: lineNumber,
-            level: taskLevel,
-            headingLevel,
-            listDepth
-          });
-
           flatItems.push({
             item: {
               id: `${filePath}:${lineNumber}`,
               type: ItemType.Task,
-              text,
+              text: plainText,
+              ...(plainText !== metadata.text && { markdown: metadata.text }),
               state,
               line: lineNumber,
               level: taskLevel,
-              children: []
+              children: [],
+              checkbox: findCheckboxRange(lines, lineNumber),
+              ...(metadata.assignees.length > 0 && { assignees: metadata.assignees }),
+              ...(metadata.tags.length > 0 && { tags: metadata.tags }),
+              ...(metadata.due && { due: metadata.due }),
+              ...(metadata.priority && { priority: metadata.priority }),
+              ...(metadata.anchor && { anchor: metadata.anchor }),
+              ...(dependsOn.length > 0 && { dependsOn }),
+              ...(notes && { notes })
             },
             level: taskLevel
           });
-        } else if (hasTaskClass || contentToken.content.match(/^\[[ x\-!]\]/i)) {
-          console.log('[PlanParser] Checkbox detected but no valid state:', contentToken.content);
+        } else if (state === null && MARKER_REGEX.test(contentToken.content)) {
+          const lineNumber = token.map ? token.map[0] : lineCounter;
+          const checkbox = findCheckboxRange(lines, lineNumber);
+
+          if (checkbox) {
+            problems.push({
+              code: PlanProblemCode.UnknownMarker,
+              message: `Unknown checkbox marker "[${lines[lineNumber].charAt(checkbox.start)}]"`,
+              line: lineNumber,
+              start: checkbox.start - 1,
+              end: checkbox.end + 1
+            });
+          }
         }
       }
     }
@@ -173,41 +188,28 @@ export function parsePlan(content: string, filePath: string): ParsedPlan {
     lineCounter++;
   }
 
-  console.log('[PlanParser] Total flat items found:', flatItems.length);
-
   // Build hierarchy from flat list
   let hierarchical = buildHierarchy(flatItems);
 
-  console.log('[PlanParser] Hierarchical items:', hierarchical.length);
-
   // Mark branches that have task descendants
   markTaskDescendants(hierarchical);
 
   // Filter only branches that culminate in tasks
   hierarchical = filterTaskBranches(hierarchical);
 
-  console.log('[PlanParser] After filtering task branches:', hierarchical.length);
-
   // Calculate aggregated status for headings
-  calculateAggregatedStatus(hierarchical);
+  calculateAggregatedStatus(hierarchical, states);
 
-  // Calculate statistics (count only tasks, not headings)
-  const counts = { pending: 0, done: 0, incomplete: 0, inProgress: 0, blocked: 0 };
-  const countTasks = (items: HierarchyItem[]) => {
-    items.forEach(item => {
-      // Only count tasks, not headings
-      if (item.type === ItemType.Task && item.state) {
-        if (item.state === TaskState.Pending) counts.pending++;
-        else if (item.state === TaskState.Done) counts.done++;
-        else if (item.state === TaskState.Incomplete) counts.incomplete++;
-        else if (item.state === TaskState.InProgress) counts.inProgress++;
-        else if (item.state === TaskState.Blocked) counts.blocked++;
-      }
+  // Replace line-based ids with ids that survive edits elsewhere in the file
+  assignStableIds(hierarchical, filePath);
 
-      if (item.children.length > 0) countTasks(item.children);
-    });
-  };
-  countTasks(hierarchical);
+  // Check the structure for inconsistent states, duplicates and misplaced tasks
+  problems.push(...findStructureProblems(hierarchical, lines, states));
+  problems.sort((a, b) => a.line - b.line);
+
+  // Calculate statistics (count only tasks, not headings)
+  const allTasks = collectTasks(hierarchical);
+  const counts = countTaskStates(allTasks, states);
 
   // Count total tasks (not headings)
   const totalTaskCount = flatItems.filter(item => item.item.type === ItemType.Task).length;
@@ -216,23 +218,223 @@ export function parsePlan(content: string, filePath: string): ParsedPlan {
   const firstLine = content.split('\n')[0].replace(/^#+\s*/, '').trim();
   const fileName = filePath.split(/[/\\]/).pop() || filePath;
 
-  const result = {
+  return {
     title: firstLine || 'Untitled Plan',
     subtitle: fileName,
     filePath,
     tasks: hierarchical,
     totalCount: totalTaskCount,
-    stateCount: counts
+    stateCount: counts,
+    categoryCount: countTaskCategories(allTasks, states),
+    states,
+    problems
+  };
+}
+
+/**
+ * Finds [x] parents with unfinished subtasks, duplicate tasks within a section,
+ * anchors used twice and tasks that come before the first H2
+ * @param items Hierarchy to check
+ * @param lines Source file lines, used for the reported columns
+ * @param states States the plan is parsed with
+ */
+function findStructureProblems(items: HierarchyItem[], lines: string[], states: StateDefinition[]): PlanProblem[] {
+  const problems: PlanProblem[] = [];
+  const anchors: Map<string, HierarchyItem> = new Map();
+
+  // Whole task line after the list marker
+  const taskProblem = (task: HierarchyItem, code: PlanProblemCode, message: string): PlanProblem => ({
+    code,
+    message,
+    line: task.line,
+    start: task.checkbox ? task.checkbox.start - 1 : 0,
+    end: (lines[task.line] ?? '').trimEnd().length
+  });
+
+  const visit = (list: HierarchyItem[], headingLevel: number, section: Map<string, HierarchyItem>) => {
+    for (const item of list) {
+      if (item.type === ItemType.Heading) {
+        visit(item.children, item.level, new Map());
+        continue;
+      }
+
+      if (headingLevel < 2) {
+        problems.push(taskProblem(item, PlanProblemCode.TaskBeforeSection, 'Task is not inside a section (## heading)'));
+      }
+
+      const key = item.text.toLowerCase().replace(/\s+/g, ' ').trim();
+      const first = section.get(key);
+      if (first) {
+        problems.push({
+          ...taskProblem(item, PlanProblemCode.DuplicateTask, `Duplicate task "${item.text}" in this section`),
+          relatedLine: first.line
+        });
+      } else {
+        section.set(key, item);
+      }
+
+      const anchored = item.anchor ? anchors.get(item.anchor) : undefined;
+      if (item.anchor && anchored) {
+        problems.push({
+          ...taskProblem(item, PlanProblemCode.DuplicateAnchor, `Anchor "${item.anchor}" is already used by another task`),
+          relatedLine: anchored.line
+        });
+      } else if (item.anchor) {
+        anchors.set(item.anchor, item);
+      }
+
+      if (getStateCategory(states, item.state) === StateCategory.Done) {
+        const unfinished = collectDescendantTasks(item).filter(task =>
+          getStateCategory(states, task.state) !== StateCategory.Done
+        );
+        if (unfinished.length > 0) {
+          problems.push(taskProblem(
+            item,
+            PlanProblemCode.DoneWithPendingChildren,
+            `Task is done but ${unfinished.length} subtask${unfinished.length > 1 ? 's are' : ' is'} not`
+          ));
+        }
+      }
+
+      // Subtasks belong to the same section; only top-level tasks are misplaced
+      visit(item.children, Math.max(headingLevel, 2), section);
+    }
   };
 
-  console.log('[PlanParser] Final result:', {
-    title: result.title,
-    totalCount: result.totalCount,
-    stateCount: result.stateCount,
-    tasksLength: result.tasks.length
+  visit(items, 0, new Map());
+  return problems;
+}
+
+/**
+ * Locates the checkbox marker character on a task line
+ * @param lines Source file lines
+ * @param lineNumber Line where the list item starts
+ * @returns Range of the marker character, or undefined if not found
+ */
+function findCheckboxRange(lines: string[], lineNumber: number): CheckboxRange | undefined {
+  const match = CHECKBOX_LINE_REGEX.exec(lines[lineNumber] ?? '');
+  if (!match) {
+    return undefined;
+  }
+
+  const start = match[1].length;
+  return { line: lineNumber, start, end: start + 1 };
+}
+
+/**
+ * Whether a list item starts with a checkbox of a known state
+ * @param tokens Token stream
+ * @param index Index of the list_item_open token
+ */
+function isTaskListItem(tokens: Token[], index: number, states: StateDefinition[]): boolean {
+  const contentToken = tokens[index + 2];
+  if (!contentToken || contentToken.type !== 'inline') {
+    return false;
+  }
+
+  if (tokens[index].attrs?.some(([key, val]) => key === 'class' && val.includes('task-list-item'))) {
+    return true;
+  }
+
+  const marker = MARKER_REGEX.exec(contentToken.content);
+  return !!marker && !!getStateByMarker(states, marker[1]);
+}
+
+/**
+ * Collects what is written under a task: further paragraphs, code blocks,
+ * quotes and sub-bullets without a checkbox (subtasks are children instead)
+ * @param tokens Token stream
+ * @param index Index of the task's list_item_open token
+ * @param lines Source file lines
+ * @returns Markdown of the notes with the task's indent removed, or undefined if there are none
+ */
+function findTaskNotes(tokens: Token[], index: number, lines: string[], states: StateDefinition[]): string | undefined {
+  const item = tokens[index];
+  const ranges: Array<[number, number]> = [];
+
+  // Skip the task's own paragraph (open, inline, close)
+  for (let j = index + 4; j < tokens.length; j++) {
+    const token = tokens[j];
+
+    if (token.type === 'list_item_close' && token.level === item.level) {
+      break;
+    }
+    if (!token.map || token.nesting === -1) {
+      continue;
+    }
+
+    const isBlock = token.level === item.level + 1 && token.type !== 'bullet_list_open' && token.type !== 'ordered_list_open';
+    const isBullet = token.level === item.level + 2 && token.type === 'list_item_open' && !isTaskListItem(tokens, j, states);
+
+    if (isBlock || isBullet) {
+      ranges.push([token.map[0], token.map[1]]);
+    }
+  }
+
+  if (ranges.length === 0) {
+    return undefined;
+  }
+
+  const noteLines: string[] = [];
+  ranges.forEach(([start, end], k) => {
+    // Blocks that weren't adjacent in the file keep a blank line between them
+    if (k > 0 && start > ranges[k - 1][1]) {
+      noteLines.push('');
+    }
+    noteLines.push(...lines.slice(start, end));
+  });
+
+  const indent = Math.min(...noteLines.filter(line => line.trim()).map(line => line.length - line.trimStart().length));
+  const notes = noteLines.map(line => line.slice(indent).trimEnd()).join('\n').trim();
+
+  return notes || undefined;
+}
+
+/**
+ * Strips inline markdown, keeping what a reader sees
+ * @param md Parser instance
+ * @param markdown Inline markdown, e.g. "Fix **login** on [iOS](https://…)"
+ * @returns Plain text, e.g. "Fix login on iOS"
+ */
+function toPlainText(md: MarkdownIt, markdown: string): string {
+  const [inline] = md.parseInline(markdown, {});
+  const text = (inline?.children || []).map(child => {
+    switch (child.type) {
+      case 'text':
+      case 'code_inline':
+        return child.content;
+      case 'softbreak':
+      case 'hardbreak':
+        return ' ';
+      case 'image':
+        return child.children?.map(alt => alt.content).join('') ?? '';
+      default:
+        return '';
+    }
   });
 
-  return result;
+  return text.join('').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Finds an item anywhere in the hierarchy by its id
+ * @param items Hierarchy to search
+ * @param id Item id to look for
+ * @returns Matching item or undefined
+ */
+export function findItemById(items: HierarchyItem[], id: string): HierarchyItem | undefined {
+  for (const item of items) {
+    if (item.id === id) {
+      return item;
+    }
+
+    const found = findItemById(item.children, id);
+    if (found) {
+      return found;
+    }
+  }
+
+  return undefined;
 }
 
 /**
@@ -315,12 +517,13 @@ function filterTaskBranches(items: HierarchyItem[]): HierarchyItem[] {
 /**
  * Calculates aggregated status for headings and tasks with children
  * @param items Hierarchy to process
+ * @param states States that decide what counts as done or active
  */
-function calculateAggregatedStatus(items: HierarchyItem[]): void {
+function calculateAggregatedStatus(items: HierarchyItem[], states: StateDefinition[]): void {
   for (const item of items) {
     // Recursively process children first
     if (item.children.length > 0) {
-      calculateAggregatedStatus(item.children);
+      calculateAggregatedStatus(item.children, states);
     }
 
     // Calculate status for headings AND tasks with children
@@ -332,13 +535,13 @@ function calculateAggregatedStatus(items: HierarchyItem[]): void {
         item.aggregatedStatus = AggregatedStatus.Pending;
       } else {
         // Check if any descendant is in-progress (takes priority for visibility)
-        const hasInProgress = descendantTasks.some(t => t.state === TaskState.InProgress);
+        const hasInProgress = descendantTasks.some(t => getStateCategory(states, t.state) === StateCategory.Active);
 
         if (hasInProgress) {
           // If any descendant is in-progress, show this parent as in-progress too
           item.aggregatedStatus = AggregatedStatus.InProgress;
         } else {
-          const doneCount = descendantTasks.filter(t => t.state === TaskState.Done).length;
+          const doneCount = descendantTasks.filter(t => getStateCategory(states, t.state) === StateCategory.Done).length;
           const totalCount = descendantTasks.length;
 
           if (doneCount === totalCount) {
@@ -359,16 +562,25 @@ function calculateAggregatedStatus(items: HierarchyItem[]): void {
  * @param item Item to collect tasks from
  * @returns Array of all descendant tasks
  */
-function collectDescendantTasks(item: HierarchyItem): HierarchyItem[] {
+export function collectDescendantTasks(item: HierarchyItem): HierarchyItem[] {
+  return collectTasks(item.children);
+}
+
+/**
+ * Collects all tasks in a list of items and their descendants
+ * @param items Items to collect tasks from
+ * @returns Flat array of tasks in document order
+ */
+export function collectTasks(items: HierarchyItem[]): HierarchyItem[] {
   const tasks: HierarchyItem[] = [];
 
-  for (const child of item.children) {
-    if (child.type === ItemType.Task) {
-      tasks.push(child);
+  for (const item of items) {
+    if (item.type === ItemType.Task) {
+      tasks.push(item);
     }
 
-    if (child.children.length > 0) {
-      tasks.push(...collectDescendantTasks(child));
+    if (item.children.length > 0) {
+      tasks.push(...collectTasks(item.children));
     }
   }
 
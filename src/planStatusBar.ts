@@ -0,0 +1,124 @@
+import * as vscode from 'vscode';
+import { PlanCache } from './planCache';
+import { PlanMonitorProvider } from './planMonitorProvider';
+import { collectTasks } from './planParser';
+import { ParsedPlan, StateCategory } from './types';
+import { getStateCategory } from './taskStates';
+import { getTasksViewId } from './planTreeProvider';
+
+/**
+ * Status bar item with the progress of the active plan, e.g. "PLAN-auth: 14/20 ✓ 1 ⚠"
+ *
+ * Follows the plan file open in the active editor, falling back to the file
+ * selected in the sidebar. Clicking it focuses the Tasks view (webview or tree).
+ */
+export class PlanStatusBar implements vscode.Disposable {
+  private static readonly UPDATE_DELAY = 300; // ms after the last keystroke
+
+  private readonly _item: vscode.StatusBarItem;
+  private readonly _cache: PlanCache;
+  private readonly _provider: PlanMonitorProvider;
+  private readonly _disposables: vscode.Disposable[] = [];
+  private _updateTimer?: NodeJS.Timeout;
+
+  constructor(cache: PlanCache, provider: PlanMonitorProvider) {
+    this._cache = cache;
+    this._provider = provider;
+
+    this._item = vscode.window.createStatusBarItem('taskPlanner.progress', vscode.StatusBarAlignment.Left, 50);
+    this._item.name = 'Task Planner Progress';
+
+    this._disposables.push(
+      vscode.window.onDidChangeActiveTextEditor(() => this.update()),
+      provider.onDidChangePlan(() => this.update()),
+      vscode.workspace.onDidChangeTextDocument(event => {
+        if (event.document === vscode.window.activeTextEditor?.document) {
+          this._scheduleUpdate();
+        }
+      })
+    );
+  }
+
+  /**
+   * Show progress for the active plan, or hide the item if there is none
+   */
+  async update(): Promise<void> {
+    const fileUri = this._getActivePlanFile();
+
+    if (!fileUri) {
+      this._item.hide();
+      return;
+    }
+
+    try {
+      const plan = await this._cache.load(fileUri.fsPath);
+      this._render(plan);
+    } catch (error) {
+      // File may have been deleted between events
+      this._item.hide();
+    }
+  }
+
+  dispose(): void {
+    if (this._updateTimer) {
+      clearTimeout(this._updateTimer);
+    }
+    this._disposables.forEach(disposable => disposable.dispose());
+    this._item.dispose();
+  }
+
+  private _scheduleUpdate(): void {
+    if (this._updateTimer) {
+      clearTimeout(this._updateTimer);
+    }
+    this._updateTimer = setTimeout(() => {
+      this._updateTimer = undefined;
+      this.update();
+    }, PlanStatusBar.UPDATE_DELAY);
+  }
+
+  /**
+   * Plan file in the active editor, or the one selected in the sidebar
+   */
+  private _getActivePlanFile(): vscode.Uri | undefined {
+    const document = vscode.window.activeTextEditor?.document;
+
+    if (document && this._provider.isPlanDocument(document)) {
+      return document.uri;
+    }
+
+    return this._provider.currentFile;
+  }
+
+  private _render(plan: ParsedPlan): void {
+    const name = plan.subtitle.replace(/\.md$/i, '');
+    const { done, active, blocked } = plan.categoryCount;
+
+    this._item.text = `$(checklist) ${name}: ${done}/${plan.totalCount} ✓${blocked > 0 ? ` ${blocked} ⚠` : ''}`;
+
+    // Tooltip lists the tasks currently in progress
+    const inProgress = collectTasks(plan.tasks)
+      .filter(task => getStateCategory(plan.states, task.state) === StateCategory.Active);
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown(`**${escapeMarkdown(plan.title)}**\n\n`);
+    tooltip.appendMarkdown(`${done}/${plan.totalCount} done · ${active} in progress · ${blocked} blocked\n\n`);
+
+    if (inProgress.length > 0) {
+      tooltip.appendMarkdown('In progress:\n\n');
+      inProgress.forEach(task => tooltip.appendMarkdown(`- ${escapeMarkdown(task.text)}\n`));
+    } else {
+      tooltip.appendMarkdown('_No tasks in progress_');
+    }
+
+    this._item.tooltip = tooltip;
+    this._item.command = `${getTasksViewId()}.focus`;
+    this._item.show();
+  }
+}
+
+/**
+ * Escapes characters that would be read as markdown formatting
+ */
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_{}[\]()#+\-.!|<>])/g, '\\$1');
+}
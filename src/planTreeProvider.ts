@@ -0,0 +1,285 @@
+import * as vscode from 'vscode';
+import { PlanCache } from './planCache';
+import { PlanMonitorProvider } from './planMonitorProvider';
+import { collectDescendantTasks, findItemById } from './planParser';
+import { getWorkspaceRelativePath } from './fileDiscovery';
+import { setTaskStates } from './taskEditor';
+import { countTaskCategories, getStateCategory, getStateDefinition, isCssColor, resolveBuiltInState } from './taskStates';
+import { HierarchyItem, ItemType, ParsedPlan, StateCategory, StateDefinition, TaskState } from './types';
+
+/** Setting that picks the webview or the native tree for the Tasks view */
+const VIEW_SETTING = 'taskPlanner.view';
+
+/** A plan file at the root of the tree, or a heading/task inside it */
+export interface PlanTreeNode {
+  fileUri: vscode.Uri;
+  item?: HierarchyItem;    // Missing for the plan file node
+  states?: StateDefinition[];
+}
+
+/**
+ * Gets the id of the Tasks view the user chose (webview or native tree)
+ */
+export function getTasksViewId(): string {
+  return vscode.workspace.getConfiguration().get<string>(VIEW_SETTING) === 'tree'
+    ? PlanTreeProvider.viewType
+    : PlanMonitorProvider.viewType;
+}
+
+/**
+ * Native tree of every plan file with its headings and tasks
+ *
+ * Offered next to the webview for keyboard and screen reader users: items are
+ * real tree items with state icons, progress descriptions and context menus.
+ */
+export class PlanTreeProvider implements vscode.TreeDataProvider<PlanTreeNode>, vscode.Disposable {
+  public static readonly viewType = 'planMonitorTree';
+  public static readonly markDoneCommand = 'taskPlanner.tree.markDone';
+  public static readonly markInProgressCommand = 'taskPlanner.tree.markInProgress';
+  public static readonly markBlockedCommand = 'taskPlanner.tree.markBlocked';
+  public static readonly markPendingCommand = 'taskPlanner.tree.markPending';
+  public static readonly copyTextCommand = 'taskPlanner.tree.copyText';
+
+  private static readonly UPDATE_DELAY = 300; // ms after the last keystroke
+
+  private readonly _cache: PlanCache;
+  private readonly _provider: PlanMonitorProvider;
+  private readonly _outputChannel: vscode.OutputChannel;
+  private readonly _planNodes: Map<string, PlanTreeNode> = new Map(); // fsPath → root node
+  private readonly _updateTimers: Map<string, NodeJS.Timeout> = new Map(); // fsPath → pending refresh
+  private readonly _disposables: vscode.Disposable[] = [];
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<PlanTreeNode | undefined>();
+
+  public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  constructor(cache: PlanCache, provider: PlanMonitorProvider, outputChannel: vscode.OutputChannel) {
+    this._cache = cache;
+    this._provider = provider;
+    this._outputChannel = outputChannel;
+
+    this._disposables.push(
+      vscode.commands.registerCommand(PlanTreeProvider.markDoneCommand, (node: PlanTreeNode) => this._setState(node, TaskState.Done)),
+      vscode.commands.registerCommand(PlanTreeProvider.markInProgressCommand, (node: PlanTreeNode) => this._setState(node, TaskState.InProgress)),
+      vscode.commands.registerCommand(PlanTreeProvider.markBlockedCommand, (node: PlanTreeNode) => this._setState(node, TaskState.Blocked)),
+      vscode.commands.registerCommand(PlanTreeProvider.markPendingCommand, (node: PlanTreeNode) => this._setState(node, TaskState.Pending)),
+      vscode.commands.registerCommand(PlanTreeProvider.copyTextCommand, (node: PlanTreeNode) => {
+        if (node?.item) {
+          vscode.env.clipboard.writeText(node.item.text);
+        }
+      }),
+      provider.onDidRefresh(() => this.refresh()),
+      provider.onDidChangeConfig(() => this.refresh()),
+      vscode.workspace.onDidChangeTextDocument(event => {
+        if (event.contentChanges.length > 0 && this._planNodes.has(event.document.uri.fsPath)) {
+          this._scheduleUpdate(event.document.uri);
+        }
+      })
+    );
+  }
+
+  dispose(): void {
+    this._updateTimers.forEach(timer => clearTimeout(timer));
+    this._disposables.forEach(disposable => disposable.dispose());
+    this._onDidChangeTreeData.dispose();
+  }
+
+  /**
+   * Rebuild the whole tree (plan files may have been added or removed)
+   */
+  refresh(): void {
+    this._planNodes.clear();
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  async getChildren(node?: PlanTreeNode): Promise<PlanTreeNode[]> {
+    try {
+      if (!node) {
+        const files = await this._provider.getPlanFiles();
+        return files.map(fileUri => this._getPlanNode(fileUri));
+      }
+
+      if (node.item) {
+        return node.item.children.map(item => ({ fileUri: node.fileUri, item, states: node.states }));
+      }
+
+      // Copy with prerequisites linked, so tasks can show as waiting
+      const plan = await this._provider.resolveDependencies(await this._cache.load(node.fileUri.fsPath));
+      return plan.tasks.map(item => ({ fileUri: node.fileUri, item, states: plan.states }));
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this._outputChannel.appendLine(`[PlanTree] ERROR reading ${node?.fileUri.fsPath ?? 'plan files'}: ${errorMsg}`);
+      return [];
+    }
+  }
+
+  async getTreeItem(node: PlanTreeNode): Promise<vscode.TreeItem> {
+    if (!node.item) {
+      try {
+        return this._createPlanItem(node, await this._cache.load(node.fileUri.fsPath));
+      } catch (error) {
+        // File may have been deleted between events
+        return new vscode.TreeItem(getWorkspaceRelativePath(node.fileUri));
+      }
+    }
+
+    return node.item.type === ItemType.Heading
+      ? this._createHeadingItem(node, node.item)
+      : this._createTaskItem(node, node.item, node.states || []);
+  }
+
+  /**
+   * Root nodes are kept so a single plan can be refreshed while typing
+   */
+  private _getPlanNode(fileUri: vscode.Uri): PlanTreeNode {
+    let node = this._planNodes.get(fileUri.fsPath);
+    if (!node) {
+      node = { fileUri };
+      this._planNodes.set(fileUri.fsPath, node);
+    }
+    return node;
+  }
+
+  private _scheduleUpdate(fileUri: vscode.Uri): void {
+    const key = fileUri.fsPath;
+    clearTimeout(this._updateTimers.get(key));
+
+    this._updateTimers.set(key, setTimeout(() => {
+      this._updateTimers.delete(key);
+      this._onDidChangeTreeData.fire(this._planNodes.get(key));
+    }, PlanTreeProvider.UPDATE_DELAY));
+  }
+
+  private _createPlanItem(node: PlanTreeNode, plan: ParsedPlan): vscode.TreeItem {
+    const treeItem = new vscode.TreeItem(plan.title, vscode.TreeItemCollapsibleState.Collapsed);
+    const { done, blocked } = plan.categoryCount;
+
+    treeItem.id = node.fileUri.fsPath;
+    treeItem.description = `${done}/${plan.totalCount}${blocked > 0 ? ` · ${blocked} blocked` : ''}`;
+    treeItem.tooltip = `${getWorkspaceRelativePath(node.fileUri)}\n${done} of ${plan.totalCount} tasks done`;
+    treeItem.iconPath = new vscode.ThemeIcon('checklist');
+    treeItem.contextValue = 'plan';
+    treeItem.accessibilityInformation = {
+      label: `${plan.title}, ${done} of ${plan.totalCount} tasks done`
+    };
+
+    return treeItem;
+  }
+
+  private _createHeadingItem(node: PlanTreeNode, heading: HierarchyItem): vscode.TreeItem {
+    const treeItem = new vscode.TreeItem(heading.text, collapsibleState(heading));
+    const counts = countTaskCategories(collectDescendantTasks(heading), node.states || []);
+    const total = counts.open + counts.done + counts.active + counts.blocked;
+
+    treeItem.id = heading.id;
+    treeItem.description = `${counts.done}/${total}`;
+    treeItem.iconPath = new vscode.ThemeIcon(counts.done === total ? 'pass' : 'list-tree');
+    treeItem.contextValue = 'heading';
+    treeItem.command = openLineCommand(node.fileUri, heading.line);
+    treeItem.accessibilityInformation = {
+      label: `${heading.text}, ${counts.done} of ${total} tasks done`
+    };
+
+    return treeItem;
+  }
+
+  private _createTaskItem(node: PlanTreeNode, task: HierarchyItem, states: StateDefinition[]): vscode.TreeItem {
+    const treeItem = new vscode.TreeItem(task.text, collapsibleState(task));
+    const state = getStateDefinition(states, task.state);
+    const stateLabel = state?.label ?? task.state ?? '';
+    const isDone = getStateCategory(states, task.state) === StateCategory.Done;
+    const descendants = collectDescendantTasks(task);
+
+    const description: string[] = [];
+    if (descendants.length > 0) {
+      const done = descendants.filter(child => getStateCategory(states, child.state) === StateCategory.Done).length;
+      description.push(`${done}/${descendants.length}`);
+    }
+    if (task.waiting) {
+      description.push('waiting');
+    }
+    (task.assignees || []).forEach(name => description.push(`@${name}`));
+
+    treeItem.id = task.id;
+    treeItem.description = description.join(' · ');
+    treeItem.iconPath = task.waiting
+      ? new vscode.ThemeIcon('watch')
+      : new vscode.ThemeIcon(state?.icon || 'circle-large-outline', stateColor(state));
+    treeItem.tooltip = createTaskTooltip(task, stateLabel);
+    treeItem.contextValue = isDone ? 'task.done' : 'task';
+    treeItem.command = openLineCommand(node.fileUri, task.line);
+    treeItem.accessibilityInformation = {
+      label: `${task.text}, ${stateLabel}${task.waiting ? ', waiting on prerequisites' : ''}`
+    };
+
+    return treeItem;
+  }
+
+  /**
+   * Change a task's checkbox from the context menu
+   * The task is looked up again by id, so a stale tree never writes to the wrong line.
+   */
+  private async _setState(node: PlanTreeNode | undefined, builtIn: TaskState): Promise<void> {
+    if (!node?.item) {
+      return;
+    }
+
+    try {
+      const plan = await this._cache.load(node.fileUri.fsPath);
+      const task = findItemById(plan.tasks, node.item.id);
+
+      if (!task || task.type !== ItemType.Task || !task.checkbox) {
+        throw new Error('Task not found in plan');
+      }
+
+      const state = resolveBuiltInState(plan.states, builtIn);
+      await setTaskStates(node.fileUri, [{ checkbox: task.checkbox, state }], plan.states);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this._outputChannel.appendLine(`[PlanTree] ERROR setting task state: ${errorMsg}`);
+      vscode.window.showErrorMessage(`Failed to update task: ${errorMsg}`);
+    }
+  }
+}
+
+function collapsibleState(item: HierarchyItem): vscode.TreeItemCollapsibleState {
+  if (item.children.length === 0) {
+    return vscode.TreeItemCollapsibleState.None;
+  }
+  return item.type === ItemType.Heading
+    ? vscode.TreeItemCollapsibleState.Expanded
+    : vscode.TreeItemCollapsibleState.Collapsed;
+}
+
+/**
+ * Theme color of a state; CSS colors only apply in the webview
+ */
+function stateColor(state: StateDefinition | undefined): vscode.ThemeColor | undefined {
+  return state?.color && !isCssColor(state.color) ? new vscode.ThemeColor(state.color) : undefined;
+}
+
+function openLineCommand(fileUri: vscode.Uri, line: number): vscode.Command {
+  return {
+    title: 'Open',
+    command: 'vscode.open',
+    arguments: [fileUri, { selection: new vscode.Range(line, 0, line, 0) }]
+  };
+}
+
+function createTaskTooltip(task: HierarchyItem, stateLabel: string): vscode.MarkdownString {
+  const tooltip = new vscode.MarkdownString();
+  tooltip.appendMarkdown(`**${stateLabel}**`);
+
+  if (task.due) {
+    tooltip.appendMarkdown(` · due ${task.due}`);
+  }
+  if (task.prerequisites && task.prerequisites.length > 0) {
+    tooltip.appendMarkdown('\n\nWaits on: ');
+    tooltip.appendText(task.prerequisites.map(prerequisite => prerequisite.text).join(', '));
+  }
+  if (task.notes) {
+    tooltip.appendMarkdown('\n\n---\n\n');
+    tooltip.appendMarkdown(task.notes);
+  }
+
+  return tooltip;
+}
@@ -0,0 +1,80 @@
+import * as vscode from 'vscode';
+
+/**
+ * Watches plan files and .codr/task-planner.json in every workspace folder
+ *
+ * Watchers are kept per root folder and per include pattern. Call rebuild()
+ * when workspace folders are added or removed, or when a config changes.
+ */
+export class PlanWatcher implements vscode.Disposable {
+  private readonly _outputChannel: vscode.OutputChannel;
+  private readonly _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+  private readonly _onDidChangeConfig = new vscode.EventEmitter<vscode.Uri>();
+  private _watchers: vscode.FileSystemWatcher[] = [];
+
+  /** Fires with the affected file whenever a plan file is created, changed or deleted */
+  public readonly onDidChange = this._onDidChange.event;
+
+  /** Fires with the config file whenever a folder's .codr/task-planner.json changes */
+  public readonly onDidChangeConfig = this._onDidChangeConfig.event;
+
+  constructor(outputChannel: vscode.OutputChannel) {
+    this._outputChannel = outputChannel;
+  }
+
+  /**
+   * Recreates watchers for the current set of workspace folders
+   * @param getPatterns Returns the plan file patterns configured for a folder
+   */
+  rebuild(getPatterns: (folder: vscode.WorkspaceFolder) => string[]): void {
+    this._disposeWatchers();
+
+    const folders = vscode.workspace.workspaceFolders || [];
+
+    for (const folder of folders) {
+      for (const pattern of getPatterns(folder)) {
+        const watcher = vscode.workspace.createFileSystemWatcher(
+          new vscode.RelativePattern(folder, pattern)
+        );
+
+        watcher.onDidChange(uri => this._fire('changed', uri));
+        watcher.onDidCreate(uri => this._fire('created', uri));
+        watcher.onDidDelete(uri => this._fire('deleted', uri));
+
+        this._watchers.push(watcher);
+        this._outputChannel.appendLine(`[FileWatcher] Watching ${folder.uri.fsPath} for ${pattern}`);
+      }
+
+      const configWatcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(folder, '.codr/task-planner.json')
+      );
+
+      configWatcher.onDidChange(uri => this._fireConfig(uri));
+      configWatcher.onDidCreate(uri => this._fireConfig(uri));
+      configWatcher.onDidDelete(uri => this._fireConfig(uri));
+
+      this._watchers.push(configWatcher);
+    }
+  }
+
+  dispose(): void {
+    this._disposeWatchers();
+    this._onDidChange.dispose();
+    this._onDidChangeConfig.dispose();
+  }
+
+  private _fire(action: string, uri: vscode.Uri): void {
+    this._outputChannel.appendLine(`[FileWatcher] Plan file ${action}: ${uri.fsPath}`);
+    this._onDidChange.fire(uri);
+  }
+
+  private _fireConfig(uri: vscode.Uri): void {
+    this._outputChannel.appendLine(`[FileWatcher] Config changed: ${uri.fsPath}`);
+    this._onDidChangeConfig.fire(uri);
+  }
+
+  private _disposeWatchers(): void {
+    this._watchers.forEach(watcher => watcher.dispose());
+    this._watchers = [];
+  }
+}
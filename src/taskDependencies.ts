@@ -0,0 +1,147 @@
+import { HierarchyItem, ParsedPlan, StateCategory, StateDefinition, TaskReference } from './types';
+import { collectTasks } from './planParser';
+import { getStateCategory } from './taskStates';
+
+/** A task of some plan, as seen by the tasks that depend on it */
+interface DependencyNode {
+  reference: TaskReference;
+  dependsOn: string[];     // Ids of its own prerequisites
+}
+
+/** Every task of every plan by id, built once and reused while a plan is edited */
+export type DependencyIndex = Map<string, DependencyNode>;
+
+/**
+ * Indexes the tasks of the given plans for resolving dependencies
+ * @param plans Every plan that may contain prerequisites
+ */
+export function buildDependencyIndex(plans: ParsedPlan[]): DependencyIndex {
+  const index: DependencyIndex = new Map();
+
+  for (const plan of plans) {
+    for (const task of collectTasks(plan.tasks)) {
+      index.set(task.id, { reference: toReference(task, plan.filePath, plan.states), dependsOn: task.dependsOn || [] });
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Links a plan's tasks to their prerequisites and dependents across plans
+ *
+ * Returns a copy of the plan with `prerequisites`, `dependents`, `waiting` and
+ * `inCycle` set on its tasks; the plan itself is left alone, since cached plans
+ * are shared. The plan's own tasks replace its entries in the index, so unsaved
+ * edits count. References to tasks outside the index are ignored.
+ *
+ * @param plan Plan to annotate
+ * @param index Tasks of every plan (see buildDependencyIndex)
+ * @returns Annotated copy and the dependency cycles, each as the list of task ids involved
+ */
+export function resolveDependencies(plan: ParsedPlan, index: DependencyIndex): { plan: ParsedPlan; cycles: string[][] } {
+  const nodes: DependencyIndex = new Map();
+  for (const [id, node] of index) {
+    if (node.reference.filePath !== plan.filePath) {
+      nodes.set(id, node);
+    }
+  }
+  buildDependencyIndex([plan]).forEach((node, id) => nodes.set(id, node));
+
+  const edges: Map<string, string[]> = new Map();
+  const dependents: Map<string, TaskReference[]> = new Map();
+
+  for (const [id, node] of nodes) {
+    const prerequisiteIds = node.dependsOn.filter(target => target !== id && nodes.has(target));
+    if (prerequisiteIds.length === 0) {
+      continue;
+    }
+
+    edges.set(id, prerequisiteIds);
+    for (const target of prerequisiteIds) {
+      dependents.set(target, [...(dependents.get(target) || []), node.reference]);
+    }
+  }
+
+  const cycles = findCycles(edges);
+  const inCycle = new Set(cycles.flat());
+
+  const annotate = (items: HierarchyItem[]): HierarchyItem[] => items.map(item => {
+    const copy: HierarchyItem = { ...item, children: annotate(item.children) };
+    const prerequisites = (edges.get(item.id) || []).map(target => nodes.get(target)!.reference);
+
+    if (prerequisites.length > 0) {
+      copy.prerequisites = prerequisites;
+      copy.waiting = !nodes.get(item.id)!.reference.done && prerequisites.some(prerequisite => !prerequisite.done);
+    }
+    if (dependents.has(item.id)) {
+      copy.dependents = dependents.get(item.id);
+    }
+    if (inCycle.has(item.id)) {
+      copy.inCycle = true;
+    }
+    return copy;
+  });
+
+  return { plan: { ...plan, tasks: annotate(plan.tasks) }, cycles };
+}
+
+function toReference(task: HierarchyItem, filePath: string, states: StateDefinition[]): TaskReference {
+  return {
+    id: task.id,
+    text: task.text,
+    state: task.state,
+    done: getStateCategory(states, task.state) === StateCategory.Done,
+    filePath,
+    line: task.line
+  };
+}
+
+/**
+ * Finds strongly connected components with more than one task (Tarjan)
+ */
+function findCycles(edges: Map<string, string[]>): string[][] {
+  const index: Map<string, number> = new Map();
+  const lowLink: Map<string, number> = new Map();
+  const stack: string[] = [];
+  const onStack: Set<string> = new Set();
+  const cycles: string[][] = [];
+
+  const visit = (id: string) => {
+    index.set(id, index.size);
+    lowLink.set(id, index.get(id)!);
+    stack.push(id);
+    onStack.add(id);
+
+    for (const target of edges.get(id) || []) {
+      if (!index.has(target)) {
+        visit(target);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(target)!));
+      } else if (onStack.has(target)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(target)!));
+      }
+    }
+
+    if (lowLink.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+
+      if (component.length > 1) {
+        cycles.push(component.reverse());
+      }
+    }
+  };
+
+  for (const id of edges.keys()) {
+    if (!index.has(id)) {
+      visit(id);
+    }
+  }
+
+  return cycles;
+}
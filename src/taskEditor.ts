@@ -0,0 +1,181 @@
+import * as vscode from 'vscode';
+import { CheckboxRange, HierarchyItem, ItemType, StateCategory, StateDefinition, TaskState, DEFAULT_STATES } from './types';
+import { generateAnchor } from './taskIdentity';
+import { collectDescendantTasks } from './planParser';
+import { getStateCategory, getStateMarker, resolveBuiltInState } from './taskStates';
+
+/** A single checkbox rewrite */
+export interface TaskStateChange {
+  checkbox: CheckboxRange;
+  state: string;           // State id to write
+}
+
+/**
+ * Returns the next state when cycling a task from the sidebar
+ * Cycle: [ ] → [>] → [x] → [ ]; every other state re-enters the cycle at [>]
+ * @param state Current task state
+ * @param states States of the plan, in case the built-ins were replaced
+ * @returns State to write next
+ */
+export function getNextTaskState(state: string, states: StateDefinition[] = DEFAULT_STATES): string {
+  const pending = resolveBuiltInState(states, TaskState.Pending);
+  const inProgress = resolveBuiltInState(states, TaskState.InProgress);
+  const done = resolveBuiltInState(states, TaskState.Done);
+
+  switch (state) {
+    case pending:
+      return inProgress;
+    case inProgress:
+      return done;
+    case done:
+      return pending;
+    default:
+      return inProgress;
+  }
+}
+
+/**
+ * Works out which parent tasks no longer match their subtasks
+ *
+ * All subtasks done makes the parent [x]; any subtask active makes it [>].
+ * Parents are visited bottom-up, so one pass ripples through every level.
+ *
+ * @param items Plan hierarchy
+ * @param states States of the plan, deciding what counts as done or active
+ * @param changedIds Only touch parents with one of these subtasks; every parent if omitted
+ * @returns Checkbox rewrites for the parents that need a new state
+ */
+export function getParentStateChanges(
+  items: HierarchyItem[],
+  states: StateDefinition[],
+  changedIds?: Set<string>
+): TaskStateChange[] {
+  const changes: TaskStateChange[] = [];
+  const updated: Map<HierarchyItem, string> = new Map();
+  const categoryOf = (state: string | undefined) => getStateCategory(states, state);
+  const changed = changedIds ? new Set(changedIds) : undefined;
+
+  const visit = (list: HierarchyItem[]) => {
+    for (const item of list) {
+      visit(item.children);
+
+      if (item.type !== ItemType.Task || !item.state || !item.checkbox) {
+        continue;
+      }
+
+      const descendants = collectDescendantTasks(item);
+      if (descendants.length === 0 || (changed && !descendants.some(task => changed.has(task.id)))) {
+        continue;
+      }
+
+      const categories = descendants.map(task => categoryOf(updated.get(task) ?? task.state));
+      let state: string | undefined;
+
+      if (categories.every(category => category === StateCategory.Done)) {
+        state = resolveBuiltInState(states, TaskState.Done);
+      } else if (categories.some(category => category === StateCategory.Active)) {
+        state = resolveBuiltInState(states, TaskState.InProgress);
+      }
+
+      if (state && categoryOf(state) !== categoryOf(item.state)) {
+        updated.set(item, state);
+        changed?.add(item.id);
+        changes.push({ checkbox: item.checkbox, state });
+      }
+    }
+  };
+
+  visit(items);
+  return changes;
+}
+
+/**
+ * Rewrites task checkbox markers through a WorkspaceEdit
+ *
+ * The edit goes through the editor buffer, so it can be undone and never
+ * clobbers unsaved changes. Documents that had no pending changes are saved
+ * afterwards so the file on disk stays in sync with the sidebar.
+ *
+ * @param uri Plan file to edit
+ * @param changes Checkbox ranges and the states to write into them
+ * @param states States of the plan, giving the marker for each state id
+ * @returns true if the edit was applied
+ */
+export async function setTaskStates(
+  uri: vscode.Uri,
+  changes: TaskStateChange[],
+  states: StateDefinition[] = DEFAULT_STATES
+): Promise<boolean> {
+  if (changes.length === 0) {
+    return false;
+  }
+
+  const document = await vscode.workspace.openTextDocument(uri);
+  const wasDirty = document.isDirty;
+  const edit = new vscode.WorkspaceEdit();
+
+  for (const { checkbox, state } of changes) {
+    // Refuse to write if the line no longer has a checkbox where we expect it
+    if (!isCheckboxAt(document, checkbox)) {
+      throw new Error(`No checkbox found at line ${checkbox.line + 1}`);
+    }
+
+    edit.replace(
+      uri,
+      new vscode.Range(checkbox.line, checkbox.start, checkbox.line, checkbox.end),
+      getStateMarker(states, state)
+    );
+  }
+
+  const applied = await vscode.workspace.applyEdit(edit);
+
+  if (applied && !wasDirty) {
+    await document.save();
+  }
+
+  return applied;
+}
+
+/**
+ * Appends an `<!-- id:... -->` anchor to every task that doesn't have one
+ * @param uri Plan file to edit
+ * @param tasks All tasks of the plan
+ * @returns Number of anchors inserted
+ */
+export async function insertTaskAnchors(uri: vscode.Uri, tasks: HierarchyItem[]): Promise<number> {
+  const missing = tasks.filter(task => !task.anchor);
+  if (missing.length === 0) {
+    return 0;
+  }
+
+  const document = await vscode.workspace.openTextDocument(uri);
+  const wasDirty = document.isDirty;
+  const existing = new Set(tasks.map(task => task.anchor).filter((anchor): anchor is string => !!anchor));
+  const edit = new vscode.WorkspaceEdit();
+
+  for (const task of missing) {
+    const line = document.lineAt(task.line);
+    const separator = line.text.endsWith(' ') ? '' : ' ';
+    edit.insert(uri, line.range.end, `${separator}<!-- id:${generateAnchor(existing)} -->`);
+  }
+
+  const applied = await vscode.workspace.applyEdit(edit);
+
+  if (applied && !wasDirty) {
+    await document.save();
+  }
+
+  return applied ? missing.length : 0;
+}
+
+/**
+ * Checks that a checkbox range still points at a `[?]` marker
+ */
+function isCheckboxAt(document: vscode.TextDocument, checkbox: CheckboxRange): boolean {
+  if (checkbox.line >= document.lineCount) {
+    return false;
+  }
+
+  const text = document.lineAt(checkbox.line).text;
+  return text.charAt(checkbox.start - 1) === '[' && text.charAt(checkbox.end) === ']';
+}
@@ -0,0 +1,187 @@
+import * as path from 'path';
+import { HierarchyItem, ItemType } from './types';
+
+/** Minimum text similarity (0-1) for a renamed item to keep its previous id */
+const REMATCH_THRESHOLD = 0.6;
+
+/**
+ * Assigns ids that survive edits elsewhere in the file
+ *
+ * - Tasks with an explicit anchor (`<!-- id:abc -->` or `^abc`) use it: `file#abc`
+ * - Everything else gets a fingerprint of its heading path and text: `file#t-1a2b3c4d`
+ * Identical items in the same section are numbered in document order, and so are
+ * repeated anchors (`file#abc~2`, e.g. after duplicating a line), so ids stay unique.
+ *
+ * @param items Hierarchy to assign ids in (mutated)
+ * @param filePath Plan file the items belong to
+ */
+export function assignStableIds(items: HierarchyItem[], filePath: string): void {
+  const seen: Map<string, number> = new Map();
+  const anchors: Map<string, number> = new Map();
+
+  const visit = (list: HierarchyItem[], path: string[]) => {
+    for (const item of list) {
+      if (item.anchor) {
+        // References resolve to the first task with the anchor
+        const count = (anchors.get(item.anchor) || 0) + 1;
+        anchors.set(item.anchor, count);
+
+        item.id = `${filePath}#${count > 1 ? `${item.anchor}~${count}` : item.anchor}`;
+      } else {
+        const prefix = item.type === ItemType.Heading ? 'h' : 't';
+        const fingerprint = `${prefix}-${hashString([...path, normalizeText(item.text)].join('\u0000'))}`;
+        const count = (seen.get(fingerprint) || 0) + 1;
+        seen.set(fingerprint, count);
+
+        item.id = `${filePath}#${count > 1 ? `${fingerprint}-${count}` : fingerprint}`;
+      }
+
+      visit(item.children, [...path, normalizeText(item.text)]);
+    }
+  };
+
+  visit(items, []);
+}
+
+/**
+ * Resolves a `file#anchor` reference to the id of the anchored task
+ * @param filePath Plan file the reference appears in
+ * @param reference `#abc` for the same file, or a path relative to it
+ * @returns Stable id of the referenced task
+ */
+export function resolveTaskReference(filePath: string, reference: string): string {
+  const hashIndex = reference.lastIndexOf('#');
+  const target = reference.slice(0, hashIndex);
+  const anchor = reference.slice(hashIndex + 1);
+
+  if (!target) {
+    return `${filePath}#${anchor}`;
+  }
+
+  let decoded = target;
+  try {
+    decoded = decodeURIComponent(target);
+  } catch {
+    // Keep malformed escapes as written
+  }
+
+  return `${path.resolve(path.dirname(filePath), decoded)}#${anchor}`;
+}
+
+/**
+ * Carries ids over from a previous parse for items whose text was edited
+ *
+ * An item whose fingerprint is new takes the id of the most similar item of the
+ * same type that disappeared since the previous parse, if similar enough.
+ * Anchored items never change id, so they are left alone.
+ *
+ * @param items Newly parsed hierarchy (mutated)
+ * @param previous Hierarchy from the previous parse of the same file
+ */
+export function rematchIds(items: HierarchyItem[], previous: HierarchyItem[]): void {
+  const current = flatten(items);
+  const currentIds = new Set(current.map(item => item.id));
+  const previousIds = new Set(flatten(previous).map(item => item.id));
+
+  // Previous items that no longer exist are candidates for a rename
+  const orphans = flatten(previous).filter(item => !currentIds.has(item.id));
+  if (orphans.length === 0) {
+    return;
+  }
+
+  for (const item of current) {
+    if (item.anchor || previousIds.has(item.id)) {
+      continue;
+    }
+
+    let best: { orphan: HierarchyItem; score: number } | undefined;
+
+    for (const orphan of orphans) {
+      if (orphan.type !== item.type) {
+        continue;
+      }
+
+      const score = similarity(item.text, orphan.text);
+      const isCloser = best && score === best.score &&
+        Math.abs(orphan.line - item.line) < Math.abs(best.orphan.line - item.line);
+
+      if (score >= REMATCH_THRESHOLD && (!best || score > best.score || isCloser)) {
+        best = { orphan, score };
+      }
+    }
+
+    if (best) {
+      item.id = best.orphan.id;
+      orphans.splice(orphans.indexOf(best.orphan), 1);
+    }
+  }
+}
+
+/**
+ * Generates a short random anchor id, unique among the given ids
+ * @param existing Anchors already used in the file
+ */
+export function generateAnchor(existing: Set<string>): string {
+  let anchor: string;
+  do {
+    anchor = Math.random().toString(36).slice(2, 8);
+  } while (existing.has(anchor) || anchor.length < 6);
+  existing.add(anchor);
+  return anchor;
+}
+
+/**
+ * Flattens a hierarchy into a list in document order
+ */
+function flatten(items: HierarchyItem[]): HierarchyItem[] {
+  return items.flatMap(item => [item, ...flatten(item.children)]);
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Dice coefficient over character bigrams (1 = identical, 0 = nothing in common)
+ */
+function similarity(a: string, b: string): number {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+
+  if (left === right) {
+    return 1;
+  }
+  if (left.length < 2 || right.length < 2) {
+    return 0;
+  }
+
+  const bigrams: Map<string, number> = new Map();
+  for (let i = 0; i < left.length - 1; i++) {
+    const bigram = left.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+
+  let matches = 0;
+  for (let i = 0; i < right.length - 1; i++) {
+    const bigram = right.slice(i, i + 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      matches++;
+    }
+  }
+
+  return (2 * matches) / (left.length + right.length - 2);
+}
+
+/**
+ * FNV-1a hash as 8 hex characters
+ */
+function hashString(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
@@ -0,0 +1,99 @@
+import { TaskPriority } from './types';
+
+/** Metadata tokens found in a task's text */
+export interface TaskMetadata {
+  text: string;            // Task text with the metadata tokens removed
+  assignees: string[];     // @name
+  tags: string[];          // #tag
+  due?: string;            // due:YYYY-MM-DD
+  priority?: TaskPriority; // !high, !medium, !low
+  anchor?: string;         // <!-- id:abc --> or ^abc
+  after: string[];         // after:#abc or after:other/PLAN.md#abc
+}
+
+const ASSIGNEE_REGEX = /^@([\w.-]+)$/;
+const TAG_REGEX = /^#([A-Za-z][\w/-]*)$/;     // Must start with a letter so "#123" stays text
+const DUE_REGEX = /^due:(\d{4}-\d{2}-\d{2})$/;
+const PRIORITY_REGEX = /^!(high|medium|low)$/i;
+const ANCHOR_COMMENT_REGEX = /<!--\s*id:([\w-]+)\s*-->/;
+const ANCHOR_REGEX = /^\^([\w-]+)$/;
+const AFTER_REGEX = /^after:([^\s#]*#[\w-]+)$/;
+const ANCHOR_LINK_REGEX = /\[[^\]]*\]\(<?([^)\s>#]*)#([\w-]+)>?\)/g;
+const URL_SCHEME_REGEX = /^[a-z][\w+.-]*:/i;
+
+/**
+ * Extracts assignee, tag, due date, priority, anchor and dependency tokens from task text
+ * Tokens that don't match a known form are left in the text untouched.
+ * @param text Task text, e.g. "Migrate auth @ana #backend due:2026-11-01 !high"
+ * @returns Display text and the structured metadata
+ */
+export function extractTaskMetadata(text: string): TaskMetadata {
+  const metadata: TaskMetadata = { text: '', assignees: [], tags: [], after: [] };
+  const kept: string[] = [];
+
+  // The comment form spans several tokens, so take it out first
+  const comment = ANCHOR_COMMENT_REGEX.exec(text);
+  if (comment) {
+    metadata.anchor = comment[1];
+    text = text.replace(ANCHOR_COMMENT_REGEX, ' ');
+  }
+
+  for (const token of text.split(/\s+/)) {
+    let match: RegExpExecArray | null;
+
+    if ((match = ANCHOR_REGEX.exec(token)) && !metadata.anchor) {
+      metadata.anchor = match[1];
+    } else if ((match = AFTER_REGEX.exec(token))) {
+      metadata.after.push(match[1]);
+    } else if ((match = ASSIGNEE_REGEX.exec(token))) {
+      metadata.assignees.push(match[1]);
+    } else if ((match = TAG_REGEX.exec(token))) {
+      metadata.tags.push(match[1]);
+    } else if ((match = DUE_REGEX.exec(token)) && isValidDate(match[1]) && !metadata.due) {
+      metadata.due = match[1];
+    } else if ((match = PRIORITY_REGEX.exec(token)) && !metadata.priority) {
+      metadata.priority = match[1].toLowerCase() as TaskPriority;
+    } else if (token) {
+      kept.push(token);
+    }
+  }
+
+  metadata.text = kept.join(' ');
+  return metadata;
+}
+
+/**
+ * Finds markdown links that point at an anchor, e.g. `[login](#abc)` or `[api](PLAN-api.md#abc)`
+ * External URLs are ignored.
+ * @param source Raw markdown of the task line
+ * @returns References in `file#anchor` form, with an empty file for same-file links
+ */
+export function findAnchorLinks(source: string): string[] {
+  const references: string[] = [];
+
+  for (const match of source.matchAll(ANCHOR_LINK_REGEX)) {
+    if (!URL_SCHEME_REGEX.test(match[1])) {
+      references.push(`${match[1]}#${match[2]}`);
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Removes `<!-- id:abc -->` and `^abc` anchors from a line, leaving everything else as written
+ */
+export function removeAnchors(line: string): string {
+  return line
+    .replace(new RegExp(`\\s*${ANCHOR_COMMENT_REGEX.source}`, 'g'), '')
+    .replace(/(^|\s)\^[\w-]+(?=\s|$)/g, '')
+    .trimEnd();
+}
+
+/**
+ * Checks that a YYYY-MM-DD string is a real calendar date
+ */
+function isValidDate(value: string): boolean {
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
@@ -0,0 +1,140 @@
+import { CategoryCount, DEFAULT_STATES, HierarchyItem, StateCategory, StateCount, StateDefinition, TaskState } from './types';
+
+const STATE_CATEGORIES = Object.values(StateCategory) as string[];
+
+/**
+ * Combines the built-in states with the ones from the config
+ *
+ * A configured state replaces the built-in state with the same id or marker;
+ * anything else is added after the built-ins. Invalid entries are skipped.
+ *
+ * @param custom `states` from .codr/task-planner.json
+ * @returns Every state a plan can use, in display order
+ */
+export function resolveStates(custom?: StateDefinition[]): StateDefinition[] {
+  const states = [...DEFAULT_STATES];
+
+  for (const state of (custom || []).filter(isValidState)) {
+    const index = states.findIndex(existing => existing.id === state.id || existing.marker === state.marker);
+
+    if (index >= 0) {
+      states[index] = state;
+    } else {
+      states.push(state);
+    }
+  }
+
+  return states;
+}
+
+/**
+ * Checks the shape of a configured state
+ */
+export function isValidState(state: StateDefinition): boolean {
+  return !!state &&
+    typeof state.id === 'string' && state.id.trim() !== '' &&
+    typeof state.label === 'string' &&
+    typeof state.marker === 'string' && state.marker.length === 1 && state.marker !== ']' &&
+    STATE_CATEGORIES.includes(state.category);
+}
+
+/**
+ * Finds the state written as `[marker]`; `[X]` counts as `[x]`
+ */
+export function getStateByMarker(states: StateDefinition[], marker: string): StateDefinition | undefined {
+  return states.find(state => state.marker === marker) ||
+    (marker === 'X' ? states.find(state => state.marker === 'x') : undefined);
+}
+
+export function getStateDefinition(states: StateDefinition[], id: string | undefined): StateDefinition | undefined {
+  return states.find(state => state.id === id);
+}
+
+/**
+ * Id of the state that stands in for a built-in state in a plan
+ *
+ * A configured state can replace a built-in by marker under a new id
+ * (e.g. `{ "id": "finished", "marker": "x" }`), so the built-in id may not
+ * exist. Falls back to the built-in's marker, then to the first state of its
+ * category.
+ *
+ * @param states States of the plan
+ * @param builtIn Built-in state to resolve
+ * @returns State id to write; the built-in id if nothing matches
+ */
+export function resolveBuiltInState(states: StateDefinition[], builtIn: TaskState): string {
+  const definition = getStateDefinition(DEFAULT_STATES, builtIn);
+  const state = getStateDefinition(states, builtIn) ||
+    states.find(state => state.marker === definition?.marker) ||
+    states.find(state => state.category === definition?.category);
+
+  return state?.id ?? builtIn;
+}
+
+/**
+ * Category a state id counts as; unknown states count as open
+ */
+export function getStateCategory(states: StateDefinition[], id: string | undefined): StateCategory {
+  return getStateDefinition(states, id)?.category ?? StateCategory.Open;
+}
+
+/**
+ * Checkbox character written for a state id
+ */
+export function getStateMarker(states: StateDefinition[], id: string): string {
+  const state = getStateDefinition(states, id);
+  if (!state) {
+    throw new Error(`Unknown task state "${id}"`);
+  }
+  return state.marker;
+}
+
+/**
+ * Share of done tasks as a whole percentage; a plan without tasks counts as complete
+ */
+export function getPercentDone(done: number, total: number): number {
+  return total > 0 ? Math.round((done / total) * 100) : 100;
+}
+
+/**
+ * Whether a state color is a plain CSS color (hex, rgb() or hsl()) rather than a theme color id
+ * Strict, so a value that passes is safe to put into CSS as it is.
+ */
+export function isCssColor(color: string): boolean {
+  return /^(#[0-9a-f]{3,8}|(rgba?|hsla?)\([\d\s.,%]+\))$/i.test(color);
+}
+
+/**
+ * Counts tasks by state id, with a zero entry for every defined state
+ * @param tasks Tasks to count (headings are not expected)
+ * @param states States the tasks were parsed with
+ */
+export function countTaskStates(tasks: HierarchyItem[], states: StateDefinition[]): StateCount {
+  const counts: StateCount = {};
+  states.forEach(state => counts[state.id] = 0);
+
+  for (const task of tasks) {
+    if (task.state && task.state in counts) {
+      counts[task.state]++;
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Counts tasks by the category of their state
+ * @param tasks Tasks to count (headings are not expected)
+ * @param states States the tasks were parsed with
+ */
+export function countTaskCategories(tasks: HierarchyItem[], states: StateDefinition[]): CategoryCount {
+  const counts: CategoryCount = { open: 0, done: 0, active: 0, blocked: 0 };
+
+  for (const task of tasks) {
+    if (task.state) {
+      counts[getStateCategory(states, task.state)]++;
+    }
+  }
+
+  return counts;
+}
@@ -0,0 +1,80 @@
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+/** Built by the pretest script */
+const CLI = path.resolve(__dirname, '../../out/cli.js');
+
+const PLAN = `# Release
+
+## Build
+
+- [x] Compile
+- [!] Sign
+- [ ] Publish
+`;
+
+let root: string;
+
+function run(...args: string[]): { status: number | null; stdout: string; stderr: string } {
+  const result = spawnSync(process.execPath, [CLI, '--root', root, ...args], { encoding: 'utf8' });
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+describe('task-planner CLI', () => {
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'task-planner-'));
+    fs.writeFileSync(path.join(root, 'PLAN.md'), PLAN);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('prints a summary and exits 0', () => {
+    const result = run('summary', '--json');
+
+    expect(result.status).toBe(0);
+    expect(JSON.parse(result.stdout)).toMatchObject({ total: { totalCount: 3, done: 1, blocked: 1, percentDone: 33 } });
+  });
+
+  it('lists tasks in the given states', () => {
+    const result = run('list', '--state', 'blocked,pending');
+
+    expect(result.status).toBe(0);
+    expect(result.stdout).toContain('Sign');
+    expect(result.stdout).toContain('Publish');
+    expect(result.stdout).not.toContain('Compile');
+  });
+
+  it('exits 0 when every check passes', () => {
+    expect(run('check', '--max-blocked', '1', '--min-done', '30').status).toBe(0);
+  });
+
+  it('exits 1 when a check fails', () => {
+    expect(run('check', '--max-blocked', '0').status).toBe(1);
+    expect(run('check', '--min-done', '50').status).toBe(1);
+  });
+
+  it('skips excluded folders, given as globs or bare paths', () => {
+    for (const folder of ['docs/old', 'vendor/lib']) {
+      fs.mkdirSync(path.join(root, folder), { recursive: true });
+      fs.writeFileSync(path.join(root, folder, 'PLAN-skip.md'), PLAN);
+    }
+    fs.mkdirSync(path.join(root, '.codr'));
+    fs.writeFileSync(path.join(root, '.codr', 'task-planner.json'), JSON.stringify({ exclusions: ['docs/old', '**/vendor/**'] }));
+
+    const result = run('summary', '--json');
+
+    expect(JSON.parse(result.stdout).plans.map((plan: { file: string }) => plan.file)).toEqual(['PLAN.md']);
+  });
+
+  it('exits 2 on usage errors', () => {
+    expect(run('frobnicate').status).toBe(2);
+    expect(run('list').status).toBe(2);
+    expect(run('list', '--state', 'nope').status).toBe(2);
+    expect(run('check', '--max-blocked', 'many').status).toBe(2);
+  });
+});
@@ -0,0 +1,59 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { listRefs, showFileAtRef } from '../gitUtils';
+
+let repo: string;
+let planPath: string;
+
+function git(...args: string[]): void {
+  execFileSync('git', args, { cwd: repo, stdio: 'ignore' });
+}
+
+describe('gitUtils', () => {
+  beforeAll(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'task-planner-git-'));
+    planPath = path.join(repo, 'docs', 'PLAN.md');
+    fs.mkdirSync(path.dirname(planPath));
+
+    git('init', '-q', '-b', 'main');
+    git('config', 'user.email', 'test@example.com');
+    git('config', 'user.name', 'Test');
+    fs.writeFileSync(planPath, '- [ ] First\n');
+    git('add', '.');
+    git('commit', '-q', '-m', 'Add plan');
+    git('tag', 'v1');
+    fs.writeFileSync(planPath, '- [x] First\n');
+    git('commit', '-q', '-am', 'Finish first');
+  });
+
+  afterAll(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('reads a plan as it was at a ref', async () => {
+    expect(await showFileAtRef(planPath, 'v1')).toBe('- [ ] First\n');
+    expect(await showFileAtRef(planPath, 'HEAD')).toBe('- [x] First\n');
+  });
+
+  it('returns undefined for a plan that did not exist yet', async () => {
+    fs.writeFileSync(path.join(repo, 'docs', 'PLAN-new.md'), '- [ ] New\n');
+
+    expect(await showFileAtRef(path.join(repo, 'docs', 'PLAN-new.md'), 'HEAD')).toBeUndefined();
+  });
+
+  it('rejects unknown refs and refs that git would read as options', async () => {
+    await expect(showFileAtRef(planPath, 'nope')).rejects.toThrow('Unknown git ref "nope"');
+    await expect(showFileAtRef(planPath, '--output=/tmp/x')).rejects.toThrow('Unknown git ref "--output=/tmp/x"');
+    await expect(showFileAtRef(planPath, '')).rejects.toThrow('Unknown git ref ""');
+  });
+
+  it('lists branches, tags and the commits that touched the plan', async () => {
+    const refs = await listRefs(planPath);
+
+    expect(refs.slice(0, 2)).toEqual([{ ref: 'main', kind: 'branch' }, { ref: 'v1', kind: 'tag' }]);
+    expect(refs.slice(2).map(ref => ref.description?.split(' · ')[0])).toEqual(['Finish first', 'Add plan']);
+  });
+});
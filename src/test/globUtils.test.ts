@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { getPlanFilePatterns, globToRegExp, toCaseInsensitiveGlob } from '../globUtils';
+import { DEFAULT_CONFIG } from '../types';
+
+describe('globToRegExp', () => {
+  it('matches ** across folders and * within one', () => {
+    const regex = globToRegExp('**/PLAN*.md');
+
+    expect(regex.test('PLAN.md')).toBe(true);
+    expect(regex.test('docs/sub/PLAN-api.md')).toBe(true);
+    expect(regex.test('docs/PLAN/notes.md')).toBe(false);
+    expect(regex.test('PLAN.mdx')).toBe(false);
+  });
+
+  it('supports ?, classes and braces', () => {
+    expect(globToRegExp('plan?.{md,txt}').test('plan1.txt')).toBe(true);
+    expect(globToRegExp('[!a]*.md').test('a.md')).toBe(false);
+    expect(globToRegExp('[!a]*.md').test('b.md')).toBe(true);
+  });
+
+  it('escapes regular expression characters', () => {
+    expect(globToRegExp('a+b(1).md').test('a+b(1).md')).toBe(true);
+    expect(globToRegExp('a.md').test('abmd')).toBe(false);
+  });
+});
+
+describe('toCaseInsensitiveGlob', () => {
+  it('lets letters match in either case and leaves classes alone', () => {
+    expect(toCaseInsensitiveGlob('**/PLAN*.md')).toBe('**/[pP][lL][aA][nN]*.[mM][dD]');
+    expect(toCaseInsensitiveGlob('[Ab]x')).toBe('[Ab][xX]');
+    expect(globToRegExp(toCaseInsensitiveGlob('**/PLAN*.md')).test('docs/plan-api.MD')).toBe(true);
+  });
+});
+
+describe('getPlanFilePatterns', () => {
+  it('falls back to the default include and applies case-insensitivity', () => {
+    expect(getPlanFilePatterns({ ...DEFAULT_CONFIG, include: [] })).toEqual(DEFAULT_CONFIG.include);
+    expect(getPlanFilePatterns({ ...DEFAULT_CONFIG, include: ['TODO.md'], caseInsensitive: true }))
+      .toEqual(['[tT][oO][dD][oO].[mM][dD]']);
+  });
+});
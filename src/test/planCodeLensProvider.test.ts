@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Uri } from 'vscode';
+import type { PlanCache } from '../planCache';
+import { parsePlan } from '../planParser';
+import { setTaskStates } from '../taskEditor';
+import { resolveStates } from '../taskStates';
+import { DEFAULT_STATES, ParsedPlan, StateCategory } from '../types';
+
+vi.mock('vscode', () => ({}));
+vi.mock('../taskEditor', () => ({ setTaskStates: vi.fn() }));
+
+import { markSectionDone } from '../planCodeLensProvider';
+
+const FILE = '/plans/PLAN.md';
+const URI = { fsPath: FILE } as Uri;
+
+const PLAN = `# P
+
+## Backend
+
+- [ ] Build
+- [x] Test
+- [!] Deploy
+  - [ ] Sign
+
+## Frontend
+
+- [ ] Login
+`;
+
+function cacheOf(plan: ParsedPlan): PlanCache {
+  return { load: async () => plan } as unknown as PlanCache;
+}
+
+describe('markSectionDone', () => {
+  beforeEach(() => {
+    vi.mocked(setTaskStates).mockClear();
+  });
+
+  it('marks every unfinished task under the heading done', async () => {
+    const plan = parsePlan(PLAN, FILE);
+
+    await markSectionDone(cacheOf(plan), URI, plan.tasks[0].id);
+
+    const [, changes] = vi.mocked(setTaskStates).mock.calls[0];
+    expect(changes.map(change => [change.checkbox.line, change.state])).toEqual([[4, 'done'], [6, 'done'], [7, 'done']]);
+  });
+
+  it('finds the heading by id after lines were added above it', async () => {
+    const before = parsePlan(PLAN, FILE);
+    const after = parsePlan(PLAN.replace('# P\n', '# P\n\nIntro\n\n## Notes\n'), FILE);
+
+    await markSectionDone(cacheOf(after), URI, before.tasks[0].id);
+
+    const [, changes] = vi.mocked(setTaskStates).mock.calls[0];
+    expect(changes.map(change => change.checkbox.line)).toEqual([8, 10, 11]);
+  });
+
+  it('writes the state that replaced the built-in done state', async () => {
+    const states = resolveStates([{ id: 'finished', marker: 'x', label: 'Finished', category: StateCategory.Done }]);
+    const plan = parsePlan(PLAN, FILE, states);
+
+    await markSectionDone(cacheOf(plan), URI, plan.tasks[1].id);
+
+    const [, changes, written] = vi.mocked(setTaskStates).mock.calls[0];
+    expect(changes.map(change => change.state)).toEqual(['finished']);
+    expect(written).toBe(states);
+  });
+
+  it('fails when the section is gone', async () => {
+    const plan = parsePlan(PLAN, FILE, DEFAULT_STATES);
+
+    await expect(markSectionDone(cacheOf(plan), URI, `${FILE}#h-missing`)).rejects.toThrow('Section not found in plan');
+    expect(setTaskStates).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CodeAction, CodeActionContext, Range, TextDocument } from 'vscode';
+import type { PlanCache } from '../planCache';
+import { parsePlan } from '../planParser';
+import { resolveStates } from '../taskStates';
+import { DEFAULT_STATES, PlanProblemCode, StateCategory, StateDefinition, TaskState } from '../types';
+
+vi.mock('vscode', () => {
+  class Position {
+    constructor(public line: number, public character: number) {}
+  }
+  class Range {
+    start: Position;
+    end: Position;
+    constructor(startLine: number, startCharacter: number, endLine: number, endCharacter: number) {
+      this.start = new Position(startLine, startCharacter);
+      this.end = new Position(endLine, endCharacter);
+    }
+  }
+  /** Records edits as ranges and replacement text */
+  class WorkspaceEdit {
+    edits: Array<{ range: Range; text: string }> = [];
+    replace(_uri: unknown, range: Range, text: string) {
+      this.edits.push({ range, text });
+    }
+    insert(_uri: unknown, position: Position, text: string) {
+      this.edits.push({ range: new Range(position.line, position.character, position.line, position.character), text });
+    }
+    delete(_uri: unknown, range: Range) {
+      this.edits.push({ range, text: '' });
+    }
+  }
+  class CodeAction {
+    constructor(public title: string, public kind: string) {}
+  }
+
+  return {
+    Position,
+    Range,
+    WorkspaceEdit,
+    CodeAction,
+    CodeActionKind: { QuickFix: 'quickfix' },
+    DiagnosticSeverity: { Error: 0, Warning: 1, Information: 2, Hint: 3 }
+  };
+});
+
+import { PlanQuickFixProvider } from '../planDiagnostics';
+
+const FILE = '/plans/PLAN.md';
+
+interface RecordedEdit {
+  edits: Array<{ range: Range; text: string }>;
+}
+
+function createDocument(content: string): TextDocument {
+  const lines = content.split('\n');
+  return {
+    uri: { fsPath: FILE },
+    lineCount: lines.length,
+    lineAt: (line: number) => ({
+      text: lines[line],
+      firstNonWhitespaceCharacterIndex: lines[line].length - lines[line].trimStart().length,
+      isEmptyOrWhitespace: lines[line].trim() === ''
+    })
+  } as unknown as TextDocument;
+}
+
+/**
+ * Quick fixes offered for the problems of one kind in a plan
+ */
+async function getFixes(content: string, code: PlanProblemCode, states: StateDefinition[] = DEFAULT_STATES): Promise<CodeAction[]> {
+  const plan = parsePlan(content, FILE, states);
+  const cache = { load: async () => plan } as unknown as PlanCache;
+
+  const diagnostics = plan.problems
+    .filter(problem => problem.code === code)
+    .map(problem => ({
+      source: 'Task Planner',
+      code: problem.code,
+      range: new Range(problem.line, problem.start, problem.line, problem.end)
+    }));
+
+  return new PlanQuickFixProvider(cache).provideCodeActions(
+    createDocument(content),
+    diagnostics[0].range,
+    { diagnostics } as unknown as CodeActionContext
+  );
+}
+
+/**
+ * Content after applying an action's edits
+ */
+function applyFix(content: string, action: CodeAction): string {
+  const lines = content.split('\n');
+  const offsetOf = (line: number, character: number) =>
+    lines.slice(0, line).reduce((sum, text) => sum + text.length + 1, 0) + character;
+
+  const edits = (action.edit as unknown as RecordedEdit).edits
+    .map(({ range, text }) => ({ start: offsetOf(range.start.line, range.start.character), end: offsetOf(range.end.line, range.end.character), text }))
+    .sort((a, b) => b.start - a.start);
+
+  return edits.reduce((result, { start, end, text }) => result.slice(0, start) + text + result.slice(end), content);
+}
+
+describe('PlanQuickFixProvider', () => {
+  it('offers each defined marker for an unknown one', async () => {
+    const content = '# P\n\n## S\n\n- [?] Odd\n';
+    const fixes = await getFixes(content, PlanProblemCode.UnknownMarker);
+
+    expect(fixes.map(fix => fix.title)).toEqual(DEFAULT_STATES.map(state => `Change to [${state.marker}] (${state.label})`));
+    expect(fixes[0].isPreferred).toBe(true);
+    expect(applyFix(content, fixes[1])).toBe('# P\n\n## S\n\n- [x] Odd\n');
+  });
+
+  it('finishes the subtasks or reopens a done parent', async () => {
+    const content = '# P\n\n## S\n\n- [x] Parent\n  - [ ] One\n  - [x] Two\n  - [!] Three\n';
+    const [markDone, reopen] = await getFixes(content, PlanProblemCode.DoneWithPendingChildren);
+
+    expect(applyFix(content, markDone)).toBe('# P\n\n## S\n\n- [x] Parent\n  - [x] One\n  - [x] Two\n  - [x] Three\n');
+    expect(applyFix(content, reopen)).toBe('# P\n\n## S\n\n- [>] Parent\n  - [ ] One\n  - [x] Two\n  - [!] Three\n');
+  });
+
+  it('reopens with a configured state when the built-in one was replaced', async () => {
+    const states = resolveStates([{ id: 'working', marker: '~', label: 'Working', category: StateCategory.Active }])
+      .filter(state => state.id !== TaskState.InProgress);
+    const content = '# P\n\n## S\n\n- [x] Parent\n  - [ ] One\n';
+    const [, reopen] = await getFixes(content, PlanProblemCode.DoneWithPendingChildren, states);
+
+    expect(applyFix(content, reopen)).toBe('# P\n\n## S\n\n- [~] Parent\n  - [ ] One\n');
+  });
+
+  it('removes a duplicate task with its sub-items', async () => {
+    const content = '# P\n\n## S\n\n- [ ] Same\n- [ ] Same\n  - [ ] Child\n\n- [ ] Next\n';
+    const [fix] = await getFixes(content, PlanProblemCode.DuplicateTask);
+
+    expect(fix.title).toBe('Remove duplicate task');
+    expect(applyFix(content, fix)).toBe('# P\n\n## S\n\n- [ ] Same\n\n- [ ] Next\n');
+  });
+
+  it('gives a task with a repeated anchor a new one', async () => {
+    const content = '# P\n\n## S\n\n- [ ] First ^abc\n- [ ] Copy <!-- id:abc -->\n';
+    const [fix] = await getFixes(content, PlanProblemCode.DuplicateAnchor);
+    const fixed = applyFix(content, fix);
+
+    expect(fixed).toMatch(/^# P\n\n## S\n\n- \[ \] First \^abc\n- \[ \] Copy <!-- id:[a-z0-9]{6} -->\n$/);
+    expect(fixed).not.toContain('id:abc');
+  });
+
+  it('adds a section heading above a task outside any section', async () => {
+    const content = '# P\nIntro\n- [ ] Loose\n';
+    const [fix] = await getFixes(content, PlanProblemCode.TaskBeforeSection);
+    const fixed = applyFix(content, fix);
+
+    expect(fixed).toBe('# P\nIntro\n\n## Tasks\n\n- [ ] Loose\n');
+    expect(parsePlan(fixed, FILE).problems).toEqual([]);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { diffPlans } from '../planDiff';
+import { parsePlan } from '../planParser';
+import { TaskChangeKind } from '../types';
+
+const FILE = '/plans/PLAN.md';
+
+describe('diffPlans', () => {
+  it('reports checked, re-stated, added and removed tasks in that order', () => {
+    const previous = parsePlan('# P\n\n## S\n\n- [ ] Build\n- [ ] Test\n- [ ] Drop me\n', FILE);
+    const current = parsePlan('# P\n\n## S\n\n- [ ] Added\n- [x] Build\n- [!] Test\n', FILE);
+
+    expect(diffPlans(previous, current).map(change => [change.kind, change.text, change.from, change.to])).toEqual([
+      [TaskChangeKind.Checked, 'Build', 'pending', 'done'],
+      [TaskChangeKind.Restated, 'Test', 'pending', 'blocked'],
+      [TaskChangeKind.Added, 'Added', undefined, 'pending'],
+      [TaskChangeKind.Removed, 'Drop me', 'pending', undefined]
+    ]);
+  });
+
+  it('matches a renamed task with its earlier version', () => {
+    const previous = parsePlan('# P\n\n## S\n\n- [ ] Write the release notes\n', FILE);
+    const current = parsePlan('# P\n\n## S\n\n- [x] Write the release notes!\n', FILE);
+
+    expect(diffPlans(previous, current)).toMatchObject([{ kind: TaskChangeKind.Checked, group: ['S'] }]);
+  });
+
+  it('ignores edits that keep every state', () => {
+    const previous = parsePlan('# P\n\n## S\n\n- [x] Build\n', FILE);
+    const current = parsePlan('# P\n\n## S\n\n- [x] Build @ana\n', FILE);
+
+    expect(diffPlans(previous, current)).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { exportCsv, exportHtml, exportJson, exportMarkdown, subtreeToMarkdown } from '../planExport';
+import { parsePlan } from '../planParser';
+
+const PLAN = `# Release
+
+## Build
+
+- [x] Compile @ana
+- [ ] =HYPERLINK("http://evil")
+`;
+
+describe('exportCsv', () => {
+  it('writes one row per task with quoted fields', () => {
+    const rows = exportCsv([{ plan: parsePlan(PLAN, '/w/PLAN.md'), relativePath: 'PLAN.md' }]).split('\r\n');
+
+    expect(rows[0]).toBe('File,Section,Parent Task,Task,State,Line,Assignees,Tags,Due,Priority');
+    expect(rows[1]).toBe('PLAN.md,Build,,Compile,Done,5,ana,,,');
+  });
+
+  it('keeps spreadsheets from running cells as formulas', () => {
+    const rows = exportCsv([{ plan: parsePlan(PLAN, '/w/PLAN.md'), relativePath: 'PLAN.md' }]).split('\r\n');
+
+    expect(rows[2]).toContain(`"'=HYPERLINK(""http://evil"")"`);
+  });
+});
+
+describe('exportJson', () => {
+  it('includes counts and the item tree', () => {
+    const exported = JSON.parse(exportJson([{ plan: parsePlan(PLAN, '/w/PLAN.md'), relativePath: 'PLAN.md' }]));
+
+    expect(exported.plans[0]).toMatchObject({ title: 'Release', file: 'PLAN.md', totalCount: 2 });
+    expect(exported.plans[0].items[0].children[0]).toMatchObject({ text: 'Compile', state: 'done', assignees: ['ana'] });
+  });
+});
+
+describe('exportHtml', () => {
+  it('escapes task text', () => {
+    const html = exportHtml([{ plan: parsePlan('# P\n\n## S\n\n- [ ] <script>x</script>\n', '/w/PLAN.md'), relativePath: 'PLAN.md' }]);
+
+    expect(html).not.toContain('<script>x');
+    expect(html).toContain('&lt;script&gt;');
+  });
+});
+
+describe('exportMarkdown', () => {
+  it('shows a plan without tasks as complete', () => {
+    const markdown = exportMarkdown([{ plan: parsePlan('# Empty\n', '/w/PLAN.md'), relativePath: 'PLAN.md' }]);
+
+    expect(markdown).toContain('100%');
+  });
+});
+
+describe('subtreeToMarkdown', () => {
+  const content = `# P
+
+## Backend
+
+- [ ] Deploy ^deploy
+  - [x] Build after:#lint <!-- id:build -->
+
+    Run it twice.
+- [ ] Next
+
+## Frontend
+`;
+  const plan = parsePlan(content, '/w/PLAN.md');
+
+  it('copies a task and its children as written, without anchors', () => {
+    expect(subtreeToMarkdown(plan.tasks[0].children[0], content))
+      .toBe('- [ ] Deploy\n  - [x] Build after:#lint\n\n    Run it twice.\n');
+  });
+
+  it('copies a section up to the next heading', () => {
+    expect(subtreeToMarkdown(plan.tasks[0], content))
+      .toBe('## Backend\n\n- [ ] Deploy\n  - [x] Build after:#lint\n\n    Run it twice.\n- [ ] Next\n');
+  });
+});
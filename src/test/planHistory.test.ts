@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from 'vitest';
+import { resolveStates } from '../taskStates';
+import { PlanSnapshot, StateCategory } from '../types';
+
+vi.mock('vscode', () => ({}));
+
+import { getCompletedTasks, getWeekStart, toHistoryPoints } from '../planHistory';
+
+function snapshot(time: string, stateCount: Record<string, number>, changed: PlanSnapshot['changed'] = []): PlanSnapshot {
+  return { time, file: 'PLAN.md', stateCount, changed };
+}
+
+describe('toHistoryPoints', () => {
+  it('counts done and remaining tasks by category', () => {
+    const points = toHistoryPoints([
+      snapshot('2026-10-01T10:00:00Z', { pending: 3, done: 1, blocked: 1 }),
+      snapshot('2026-10-02T10:00:00Z', { pending: 1, done: 4, removed: 1 })
+    ], resolveStates());
+
+    expect(points).toEqual([
+      { time: '2026-10-01T10:00:00Z', total: 5, done: 1, remaining: 4 },
+      { time: '2026-10-02T10:00:00Z', total: 6, done: 4, remaining: 2 }
+    ]);
+  });
+
+  it('uses the current category of a configured state', () => {
+    const states = resolveStates([{ id: 'shipped', marker: 's', label: 'Shipped', category: StateCategory.Done }]);
+
+    expect(toHistoryPoints([snapshot('2026-10-01T10:00:00Z', { pending: 1, shipped: 2 })], states))
+      .toMatchObject([{ total: 3, done: 2, remaining: 1 }]);
+  });
+});
+
+describe('getCompletedTasks', () => {
+  const states = resolveStates();
+
+  it('lists tasks finished since the given time, newest first', () => {
+    const completed = getCompletedTasks([
+      snapshot('2026-10-01T10:00:00Z', {}, [{ id: 't-old', text: 'Old', from: 'pending', to: 'done' }]),
+      snapshot('2026-10-06T10:00:00Z', {}, [{ id: 't-a', text: 'A', from: 'pending', to: 'done' }]),
+      snapshot('2026-10-07T10:00:00Z', {}, [
+        { id: 't-b', text: 'B', from: 'in-progress', to: 'done' },
+        { id: 't-c', text: 'C', from: 'pending', to: 'blocked' }
+      ])
+    ], states, new Date('2026-10-05T00:00:00Z'));
+
+    expect(completed).toEqual([
+      { id: 't-b', text: 'B', time: '2026-10-07T10:00:00Z' },
+      { id: 't-a', text: 'A', time: '2026-10-06T10:00:00Z' }
+    ]);
+  });
+
+  it('leaves out reopened tasks and lists a task finished twice once', () => {
+    const completed = getCompletedTasks([
+      snapshot('2026-10-06T10:00:00Z', {}, [
+        { id: 't-a', text: 'A', from: 'pending', to: 'done' },
+        { id: 't-b', text: 'B', from: 'pending', to: 'done' }
+      ]),
+      snapshot('2026-10-07T10:00:00Z', {}, [
+        { id: 't-a', text: 'A', from: 'done', to: 'pending' },
+        { id: 't-b', text: 'B', from: 'done', to: 'pending' }
+      ]),
+      snapshot('2026-10-08T10:00:00Z', {}, [{ id: 't-b', text: 'B again', from: 'pending', to: 'done' }])
+    ], states, new Date('2026-10-05T00:00:00Z'));
+
+    expect(completed).toEqual([{ id: 't-b', text: 'B again', time: '2026-10-08T10:00:00Z' }]);
+  });
+
+  it('matches ids recorded with the file path to ids recorded without it', () => {
+    const completed = getCompletedTasks([
+      snapshot('2026-10-06T10:00:00Z', {}, [{ id: '/home/ana/plans/PLAN.md#t-a', text: 'A', from: 'pending', to: 'done' }]),
+      snapshot('2026-10-07T10:00:00Z', {}, [{ id: 't-a', text: 'A', from: 'done', to: 'pending' }])
+    ], states, new Date('2026-10-05T00:00:00Z'));
+
+    expect(completed).toEqual([]);
+  });
+});
+
+describe('getWeekStart', () => {
+  it('returns Monday midnight of the same week', () => {
+    expect(getWeekStart(new Date(2026, 9, 21, 15, 30))).toEqual(new Date(2026, 9, 19));
+    expect(getWeekStart(new Date(2026, 9, 19, 0, 0))).toEqual(new Date(2026, 9, 19));
+  });
+
+  it('goes back to the previous Monday on a Sunday', () => {
+    expect(getWeekStart(new Date(2026, 9, 25, 23, 59))).toEqual(new Date(2026, 9, 19));
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { collectTasks, parsePlan } from '../planParser';
+import { resolveStates } from '../taskStates';
+import { ItemType, PlanProblemCode, StateCategory } from '../types';
+
+const PLAN = `# Auth rollout
+
+## Backend
+
+- [x] Issue tokens @ana #api
+- [>] Refresh flow due:2026-11-01 !high
+  - [ ] Rotate keys
+- [!] Migrate sessions
+
+## Frontend
+
+- [ ] Login page
+`;
+
+describe('parsePlan', () => {
+  it('builds the heading and task hierarchy', () => {
+    const plan = parsePlan(PLAN, '/plans/PLAN-auth.md');
+
+    expect(plan.title).toBe('Auth rollout');
+    expect(plan.tasks.map(item => item.text)).toEqual(['Backend', 'Frontend']);
+    expect(plan.tasks[0].children.map(item => item.text)).toEqual(['Issue tokens', 'Refresh flow', 'Migrate sessions']);
+    expect(plan.tasks[0].children[1].children[0]).toMatchObject({ type: ItemType.Task, text: 'Rotate keys', state: 'pending' });
+  });
+
+  it('counts tasks by state and category', () => {
+    const plan = parsePlan(PLAN, '/plans/PLAN-auth.md');
+
+    expect(plan.totalCount).toBe(5);
+    expect(plan.stateCount).toMatchObject({ pending: 2, done: 1, 'in-progress': 1, blocked: 1 });
+    expect(plan.categoryCount).toEqual({ open: 2, done: 1, active: 1, blocked: 1 });
+  });
+
+  it('extracts metadata into fields', () => {
+    const [tokens, refresh] = parsePlan(PLAN, '/plans/PLAN-auth.md').tasks[0].children;
+
+    expect(tokens).toMatchObject({ text: 'Issue tokens', assignees: ['ana'], tags: ['api'] });
+    expect(refresh).toMatchObject({ text: 'Refresh flow', due: '2026-11-01', priority: 'high' });
+  });
+
+  it('records the checkbox range of each task', () => {
+    const task = parsePlan(PLAN, '/plans/PLAN-auth.md').tasks[0].children[0];
+
+    expect(task.checkbox).toEqual({ line: 4, start: 3, end: 4 });
+  });
+
+  it('parses custom states from the config', () => {
+    const states = resolveStates([
+      { id: 'review', marker: '?', label: 'In Review', category: StateCategory.Active },
+      { id: 'finished', marker: 'x', label: 'Finished', category: StateCategory.Done }
+    ]);
+    const plan = parsePlan('# P\n\n## S\n\n- [?] Review API\n- [x] Ship it\n', '/plans/PLAN.md', states);
+
+    expect(collectTasks(plan.tasks).map(task => task.state)).toEqual(['review', 'finished']);
+    expect(plan.categoryCount).toMatchObject({ active: 1, done: 1 });
+    expect(plan.problems).toEqual([]);
+  });
+
+  it('reports unknown markers and structure problems', () => {
+    const content = '# P\n\n- [ ] Loose task\n\n## S\n\n- [?] Odd marker\n- [x] Parent\n  - [ ] Child\n- [ ] Same\n- [ ] Same\n';
+    const codes = parsePlan(content, '/plans/PLAN.md').problems.map(problem => problem.code);
+
+    expect(codes).toEqual([
+      PlanProblemCode.TaskBeforeSection,
+      PlanProblemCode.UnknownMarker,
+      PlanProblemCode.DoneWithPendingChildren,
+      PlanProblemCode.DuplicateTask
+    ]);
+  });
+
+  it('reports an anchor used by two tasks', () => {
+    const content = '# P\n\n## S\n\n- [ ] First ^abc\n- [ ] Copy ^abc\n';
+    const [problem] = parsePlan(content, '/plans/PLAN.md').problems;
+
+    expect(problem).toMatchObject({ code: PlanProblemCode.DuplicateAnchor, line: 5, relatedLine: 4 });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { collectTasks, parsePlan } from '../planParser';
+import { buildDependencyIndex, resolveDependencies } from '../taskDependencies';
+
+const API = parsePlan('# API\n\n## S\n\n- [x] Schema ^schema\n- [ ] Endpoints ^endpoints after:#schema\n', '/w/PLAN-api.md');
+
+describe('resolveDependencies', () => {
+  it('links prerequisites and dependents across plans', () => {
+    const web = parsePlan('# Web\n\n## S\n\n- [ ] Pages after:PLAN-api.md#endpoints\n', '/w/PLAN-web.md');
+    const index = buildDependencyIndex([API, web]);
+
+    const [pages] = collectTasks(resolveDependencies(web, index).plan.tasks);
+    const [schema, endpoints] = collectTasks(resolveDependencies(API, index).plan.tasks);
+
+    expect(pages.prerequisites).toMatchObject([{ id: '/w/PLAN-api.md#endpoints', done: false }]);
+    expect(pages.waiting).toBe(true);
+    expect(endpoints.waiting).toBe(false);
+    expect(endpoints.dependents?.map(task => task.text)).toEqual(['Pages']);
+    expect(schema.dependents?.map(task => task.text)).toEqual(['Endpoints']);
+  });
+
+  it('reports cycles and marks the tasks in them', () => {
+    const plan = parsePlan('# P\n\n## S\n\n- [ ] A ^a after:#b\n- [ ] B ^b after:#a\n- [ ] C after:#a\n', '/w/PLAN.md');
+    const resolved = resolveDependencies(plan, buildDependencyIndex([plan]));
+
+    expect(resolved.cycles).toHaveLength(1);
+    expect([...resolved.cycles[0]].sort()).toEqual(['/w/PLAN.md#a', '/w/PLAN.md#b']);
+    expect(collectTasks(resolved.plan.tasks).map(task => !!task.inCycle)).toEqual([true, true, false]);
+  });
+
+  it('leaves the given plan unchanged', () => {
+    const before = JSON.stringify(API);
+
+    resolveDependencies(API, buildDependencyIndex([API]));
+
+    expect(JSON.stringify(API)).toBe(before);
+  });
+
+  it('uses the plan passed in over its indexed version', () => {
+    const edited = parsePlan('# API\n\n## S\n\n- [x] Schema ^schema\n- [x] Endpoints ^endpoints after:#schema\n', '/w/PLAN-api.md');
+    const web = parsePlan('# Web\n\n## S\n\n- [ ] Pages after:PLAN-api.md#endpoints\n', '/w/PLAN-web.md');
+    const index = buildDependencyIndex([API, web]);
+
+    const [, endpoints] = collectTasks(resolveDependencies(edited, index).plan.tasks);
+
+    expect(endpoints.dependents?.map(task => task.text)).toEqual(['Pages']);
+    expect(endpoints.prerequisites).toMatchObject([{ id: '/w/PLAN-api.md#schema', done: true }]);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parsePlan } from '../planParser';
+import { resolveStates } from '../taskStates';
+import { DEFAULT_STATES, StateCategory } from '../types';
+
+vi.mock('vscode', () => ({}));
+
+import { getNextTaskState, getParentStateChanges } from '../taskEditor';
+
+const FILE = '/plans/PLAN.md';
+
+/** Changed lines and the state written to each */
+function parentChanges(content: string, states = DEFAULT_STATES, changedIds?: Set<string>): Array<[number, string]> {
+  const plan = parsePlan(content, FILE, states);
+  return getParentStateChanges(plan.tasks, states, changedIds).map(change => [change.checkbox.line, change.state]);
+}
+
+describe('getNextTaskState', () => {
+  it('cycles pending, in progress and done', () => {
+    expect(getNextTaskState('pending')).toBe('in-progress');
+    expect(getNextTaskState('in-progress')).toBe('done');
+    expect(getNextTaskState('done')).toBe('pending');
+    expect(getNextTaskState('blocked')).toBe('in-progress');
+  });
+
+  it('cycles through states that replaced the built-ins', () => {
+    const states = resolveStates([{ id: 'finished', marker: 'x', label: 'Finished', category: StateCategory.Done }]);
+
+    expect(getNextTaskState('in-progress', states)).toBe('finished');
+    expect(getNextTaskState('finished', states)).toBe('pending');
+  });
+});
+
+describe('getParentStateChanges', () => {
+  it('marks a parent done once every subtask is done', () => {
+    expect(parentChanges('## S\n\n- [ ] Parent\n  - [x] One\n  - [x] Two\n')).toEqual([[2, 'done']]);
+  });
+
+  it('marks a parent in progress while a subtask is active', () => {
+    expect(parentChanges('## S\n\n- [ ] Parent\n  - [>] One\n  - [ ] Two\n')).toEqual([[2, 'in-progress']]);
+  });
+
+  it('leaves parents alone that already match or have nothing to follow', () => {
+    expect(parentChanges('## S\n\n- [x] Parent\n  - [x] One\n- [!] Other\n  - [ ] Two\n- [ ] Leaf\n')).toEqual([]);
+  });
+
+  it('ripples up through every level in one pass', () => {
+    const content = '## S\n\n- [ ] Top\n  - [ ] Middle\n    - [x] One\n  - [x] Two\n';
+
+    expect(parentChanges(content)).toEqual([[3, 'done'], [2, 'done']]);
+  });
+
+  it('only touches parents of the changed subtasks when ids are given', () => {
+    const content = '## S\n\n- [ ] A\n  - [x] One\n- [ ] B\n  - [x] Two\n';
+    const plan = parsePlan(content, FILE);
+    const two = plan.tasks[0].children[1].children[0];
+
+    expect(parentChanges(content, DEFAULT_STATES, new Set([two.id]))).toEqual([[4, 'done']]);
+  });
+
+  it('writes the states that replaced the built-ins', () => {
+    const states = resolveStates([{ id: 'finished', marker: 'x', label: 'Finished', category: StateCategory.Done }]);
+
+    expect(parentChanges('## S\n\n- [ ] Parent\n  - [x] One\n', states)).toEqual([[2, 'finished']]);
+  });
+});
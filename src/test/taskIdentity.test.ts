@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { parsePlan } from '../planParser';
+import { rematchIds, resolveTaskReference } from '../taskIdentity';
+
+const FILE = '/plans/PLAN.md';
+
+function taskIds(content: string): string[] {
+  return parsePlan(content, FILE).tasks[0].children.map(task => task.id);
+}
+
+describe('assignStableIds', () => {
+  it('keeps ids when lines are added above a task', () => {
+    const before = taskIds('# P\n\n## S\n\n- [ ] Write docs\n');
+    const after = taskIds('# P\n\n## S\n\n- [ ] New task\n- [ ] Write docs\n');
+
+    expect(after[1]).toBe(before[0]);
+  });
+
+  it('uses explicit anchors', () => {
+    expect(taskIds('# P\n\n## S\n\n- [ ] Deploy <!-- id:deploy -->\n- [ ] Build ^build\n'))
+      .toEqual([`${FILE}#deploy`, `${FILE}#build`]);
+  });
+
+  it('numbers identical tasks and repeated anchors so ids stay unique', () => {
+    const ids = taskIds('# P\n\n## S\n\n- [ ] Same\n- [ ] Same\n- [ ] One ^abc\n- [ ] Two ^abc\n');
+
+    expect(new Set(ids).size).toBe(4);
+    expect(ids[1]).toBe(`${ids[0]}-2`);
+    expect(ids.slice(2)).toEqual([`${FILE}#abc`, `${FILE}#abc~2`]);
+  });
+});
+
+describe('rematchIds', () => {
+  it('keeps the id of a task whose text was edited', () => {
+    const previous = parsePlan('# P\n\n## S\n\n- [ ] Write the release notes\n', FILE);
+    const current = parsePlan('# P\n\n## S\n\n- [ ] Write the release notes v2\n', FILE);
+
+    rematchIds(current.tasks, previous.tasks);
+
+    expect(current.tasks[0].children[0].id).toBe(previous.tasks[0].children[0].id);
+  });
+
+  it('does not match unrelated text', () => {
+    const previous = parsePlan('# P\n\n## S\n\n- [ ] Write the release notes\n', FILE);
+    const current = parsePlan('# P\n\n## S\n\n- [ ] Rotate keys\n', FILE);
+
+    rematchIds(current.tasks, previous.tasks);
+
+    expect(current.tasks[0].children[0].id).not.toBe(previous.tasks[0].children[0].id);
+  });
+});
+
+describe('resolveTaskReference', () => {
+  it('resolves same-file and relative references', () => {
+    expect(resolveTaskReference(FILE, '#abc')).toBe(`${FILE}#abc`);
+    expect(resolveTaskReference(FILE, '../api/PLAN%20api.md#def')).toBe('/api/PLAN api.md#def');
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { extractTaskMetadata, findAnchorLinks, removeAnchors } from '../taskMetadata';
+
+describe('extractTaskMetadata', () => {
+  it('takes assignees, tags, due date and priority out of the text', () => {
+    expect(extractTaskMetadata('Migrate auth @ana #backend due:2026-11-01 !HIGH')).toEqual({
+      text: 'Migrate auth',
+      assignees: ['ana'],
+      tags: ['backend'],
+      due: '2026-11-01',
+      priority: 'high',
+      after: []
+    });
+  });
+
+  it('reads both anchor forms and after: prerequisites', () => {
+    expect(extractTaskMetadata('Deploy <!-- id:deploy --> after:#build')).toMatchObject({
+      text: 'Deploy', anchor: 'deploy', after: ['#build']
+    });
+    expect(extractTaskMetadata('Build ^build after:other/PLAN.md#lint')).toMatchObject({
+      text: 'Build', anchor: 'build', after: ['other/PLAN.md#lint']
+    });
+  });
+
+  it('leaves tokens that are not metadata in the text', () => {
+    expect(extractTaskMetadata('Fix #123 by due:2026-02-30 !urgent').text).toBe('Fix #123 by due:2026-02-30 !urgent');
+  });
+});
+
+describe('findAnchorLinks', () => {
+  it('returns links to task anchors but not to web pages', () => {
+    expect(findAnchorLinks('See [login](#abc), [api](PLAN-api.md#def) and [docs](https://example.com/#x)'))
+      .toEqual(['#abc', 'PLAN-api.md#def']);
+  });
+});
+
+describe('removeAnchors', () => {
+  it('drops both anchor forms and keeps the rest of the line', () => {
+    expect(removeAnchors('- [ ] Deploy after:#build <!-- id:deploy -->')).toBe('- [ ] Deploy after:#build');
+    expect(removeAnchors('- [ ] Build ^build @ana')).toBe('- [ ] Build @ana');
+  });
+});
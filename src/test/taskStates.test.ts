@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { getPercentDone, isCssColor, resolveBuiltInState, resolveStates } from '../taskStates';
+import { DEFAULT_STATES, StateCategory, StateDefinition, TaskState } from '../types';
+
+describe('resolveStates', () => {
+  it('replaces built-ins by id or marker, appends new states and skips invalid ones', () => {
+    const states = resolveStates([
+      { id: 'finished', marker: 'x', label: 'Finished', category: StateCategory.Done },
+      { id: 'deferred', marker: '~', label: 'Deferred', category: StateCategory.Open },
+      { id: '', marker: '?', label: 'Broken', category: StateCategory.Open }
+    ]);
+
+    expect(states.map(state => state.id)).toEqual(['pending', 'finished', 'incomplete', 'in-progress', 'blocked', 'deferred']);
+  });
+});
+
+describe('resolveBuiltInState', () => {
+  it('uses the built-in id when it exists', () => {
+    expect(resolveBuiltInState(DEFAULT_STATES, TaskState.Done)).toBe('done');
+  });
+
+  it('falls back to the state that took over the marker, then to the category', () => {
+    const states: StateDefinition[] = [
+      { id: 'todo', marker: 'o', label: 'To do', category: StateCategory.Open },
+      { id: 'finished', marker: 'x', label: 'Finished', category: StateCategory.Done }
+    ];
+
+    expect(resolveBuiltInState(states, TaskState.Done)).toBe('finished');
+    expect(resolveBuiltInState(states, TaskState.Pending)).toBe('todo');
+    expect(resolveBuiltInState(states, TaskState.Blocked)).toBe('blocked');
+  });
+});
+
+describe('getPercentDone', () => {
+  it('rounds to whole percent and treats an empty plan as complete', () => {
+    expect(getPercentDone(1, 3)).toBe(33);
+    expect(getPercentDone(0, 0)).toBe(100);
+  });
+});
+
+describe('isCssColor', () => {
+  it('accepts hex, rgb() and hsl() colors', () => {
+    expect(['#fff', '#12345678', 'rgb(1, 2, 3)', 'rgba(1,2,3,0.5)', 'hsl(120 50% 50%)'].every(isCssColor)).toBe(true);
+  });
+
+  it('rejects theme color ids and anything that could break out of CSS', () => {
+    expect(['charts.blue', '#zz', '#fff; background: red', 'rgb(1,2,3)) url(x)', 'red'].some(isCssColor)).toBe(false);
+  });
+});
@@ -1,4 +1,6 @@
-/** Represents the state of a task checkbox */
+import type { Event, Uri } from 'vscode';
+
+/** Built-in task states; more can be defined in .codr/task-planner.json */
 export enum TaskState {
   Pending = 'pending',      // [ ]
   Done = 'done',            // [x]
@@ -7,6 +9,40 @@ export enum TaskState {
   Blocked = 'blocked'       // [!]
 }
 
+/** How a state counts when progress is aggregated */
+export enum StateCategory {
+  Open = 'open',           // Still to do
+  Done = 'done',           // Finished
+  Active = 'active',       // Being worked on
+  Blocked = 'blocked'      // Can't move forward
+}
+
+/** A task state and the checkbox marker that selects it */
+export interface StateDefinition {
+  id: string;              // Stored on tasks, e.g. "in-progress" or "deferred"
+  marker: string;          // Single checkbox character, e.g. ">" for [>]
+  label: string;           // Display name, e.g. "Needs decision"
+  category: StateCategory; // Counts as open, done, active or blocked
+  color?: string;          // Theme color id (e.g. "charts.purple") or CSS color
+  icon?: string;           // Codicon name without the "codicon-" prefix
+}
+
+/** Built-in states, extended or overridden by the `states` config */
+export const DEFAULT_STATES: StateDefinition[] = [
+  { id: TaskState.Pending, marker: ' ', label: 'Pending', category: StateCategory.Open, color: 'descriptionForeground', icon: 'circle-large-outline' },
+  { id: TaskState.Done, marker: 'x', label: 'Done', category: StateCategory.Done, color: 'testing.iconPassed', icon: 'pass-filled' },
+  { id: TaskState.Incomplete, marker: '-', label: 'Incomplete', category: StateCategory.Open, color: 'descriptionForeground', icon: 'circle-slash' },
+  { id: TaskState.InProgress, marker: '>', label: 'In Progress', category: StateCategory.Active, color: 'charts.blue', icon: 'play-circle' },
+  { id: TaskState.Blocked, marker: '!', label: 'Blocked', category: StateCategory.Blocked, color: 'testing.iconFailed', icon: 'error' }
+];
+
+/** Priority set on a task with !high, !medium or !low */
+export enum TaskPriority {
+  High = 'high',
+  Medium = 'medium',
+  Low = 'low'
+}
+
 /** Type of hierarchy item */
 export enum ItemType {
   Heading = 'heading',
@@ -21,22 +57,79 @@ export enum AggregatedStatus {
   InProgress = 'in-progress' // At least one child in progress
 }
 
+/** Location of a task's checkbox marker character in the source file */
+export interface CheckboxRange {
+  line: number;            // Line number (0-indexed)
+  start: number;           // Column of the marker character (0-indexed)
+  end: number;             // Column just after the marker character
+}
+
 /** A single item in the hierarchy (heading or task) */
 export interface HierarchyItem {
-  id: string;              // Unique identifier (file + line)
+  id: string;              // Stable identifier (file + anchor or content fingerprint)
   type: ItemType;          // Whether this is a heading or task
-  text: string;            // Heading text or task description
-  state?: TaskState;       // Task state (only for tasks)
+  text: string;            // Heading text or task description (plain text)
+  markdown?: string;       // Task description with inline markdown, when it has any formatting
+  state?: string;          // State id, a TaskState or a configured state (only for tasks)
   aggregatedStatus?: AggregatedStatus; // Aggregated status for headings
   line: number;            // Line number in source file (0-indexed)
   level: number;           // Heading level (1-6) or task nesting level
   children: HierarchyItem[]; // Nested items (headings or tasks)
   hasTaskDescendants?: boolean; // Whether this branch has any tasks
+  checkbox?: CheckboxRange; // Checkbox marker location (only for tasks)
+  assignees?: string[];    // @name tokens (only for tasks)
+  tags?: string[];         // #tag tokens (only for tasks)
+  due?: string;            // due:YYYY-MM-DD token (only for tasks)
+  priority?: TaskPriority; // !high / !medium / !low token (only for tasks)
+  anchor?: string;         // Explicit <!-- id:abc --> or ^abc anchor (only for tasks)
+  dependsOn?: string[];    // Ids of prerequisite tasks from after:#id or anchor links (only for tasks)
+  notes?: string;          // Markdown written under the task: paragraphs, code blocks, plain sub-bullets (only for tasks)
+  prerequisites?: TaskReference[]; // Prerequisites found in any plan, set by resolveDependencies
+  dependents?: TaskReference[];    // Tasks that depend on this one, set by resolveDependencies
+  waiting?: boolean;       // Not done while a prerequisite isn't done (effectively blocked)
+  inCycle?: boolean;       // Part of a dependency cycle
+}
+
+/** Another task referenced through a dependency */
+export interface TaskReference {
+  id: string;              // Stable id of the referenced task
+  text: string;            // Task description
+  state?: string;          // Current state id of the referenced task
+  done: boolean;           // Whether that state counts as done
+  filePath: string;        // Plan file the task is in
+  line: number;            // Line number in that file (0-indexed)
 }
 
 /** Legacy type alias for backward compatibility */
 export type TaskItem = HierarchyItem;
 
+/** Task count by state id, with an entry for every defined state */
+export type StateCount = Record<string, number>;
+
+/** Task count by state category */
+export interface CategoryCount {
+  open: number;
+  done: number;
+  active: number;
+  blocked: number;
+}
+
+/** A task whose state changed between two history snapshots */
+export interface SnapshotChange {
+  id: string;              // Stable task id without the file path, e.g. "t-1a2b3c4d" or an anchor
+  text: string;            // Task description when it changed
+  from: string;            // Previous state id
+  to: string;              // New state id
+}
+
+/** Progress of a plan at one point in time, one line of .codr/task-history.jsonl */
+export interface PlanSnapshot {
+  time: string;            // ISO timestamp of the re-parse
+  file: string;            // Plan path relative to the workspace folder, with forward slashes
+  stateCount: StateCount;  // Count by state at that time
+  changed: SnapshotChange[]; // Tasks that changed state since the previous snapshot
+}
+
 /** Root structure of a parsed plan file */
 export interface ParsedPlan {
   title: string;           // First line or filename
@@ -44,20 +137,78 @@ export interface ParsedPlan {
   filePath: string;        // Full path to source file
   tasks: TaskItem[];       // Root-level tasks
   totalCount: number;      // Total task count
-  stateCount: {            // Count by state
-    pending: number;
-    done: number;
-    inProgress: number;
-    blocked: number;
-  };
+  stateCount: StateCount;  // Count by state
+  categoryCount: CategoryCount; // Count by done/active/blocked/open
+  states: StateDefinition[]; // States the plan was parsed with
+  problems: PlanProblem[]; // Malformed or inconsistent tasks
+}
+
+/** Kind of problem found in a plan file */
+export enum PlanProblemCode {
+  UnknownMarker = 'unknown-marker',               // [?] isn't a known state
+  DoneWithPendingChildren = 'done-with-pending',  // [x] parent with unfinished subtasks
+  DuplicateTask = 'duplicate-task',               // Same task text twice in a section
+  DuplicateAnchor = 'duplicate-anchor',           // Same id:/^ anchor on two tasks in a file
+  TaskBeforeSection = 'task-before-section'       // Task above the first H2
+}
+
+/** A problem found while parsing a plan, reported as an editor diagnostic */
+export interface PlanProblem {
+  code: PlanProblemCode;
+  message: string;
+  line: number;            // Line number (0-indexed)
+  start: number;           // First column of the problem
+  end: number;             // Column just after the problem
+  relatedLine?: number;    // First occurrence, for duplicates
 }
 
-/** Cache entry with modification time */
+/** Progress of a single plan file, shown in the "All plans" overview */
+export interface PlanSummary {
+  filePath: string;        // Full path to source file
+  relativePath: string;    // Workspace-relative path
+  folder: string;          // Workspace folder name
+  title: string;
+  totalCount: number;
+  stateCount: StateCount;
+  categoryCount: CategoryCount;
+}
+
+/** Cache entry keyed by content hash */
 export interface CacheEntry {
-  mtime: number;           // File modification time (ms since epoch)
+  hash: string;            // Hash of the content that was parsed
   parsed: ParsedPlan;      // Cached parse result
 }
 
+/**
+ * API returned by the extension's `activate`, for other extensions:
+ * `vscode.extensions.getExtension<TaskPlannerApi>(id)?.activate()`
+ */
+export interface TaskPlannerApi {
+  /** Plan files in the workspace, matched by each folder's file patterns */
+  getPlanFiles(): Promise<Uri[]>;
+
+  /** Parsed plan of a file, including unsaved editor changes; a copy the caller may change */
+  getPlan(uri: Uri): Promise<ParsedPlan>;
+
+  /**
+   * Tasks and subtasks of a plan in the given states, in document order
+   * @param states State ids, e.g. "in-progress" or a custom state's id
+   */
+  getTasksByState(uri: Uri, ...states: string[]): Promise<HierarchyItem[]>;
+
+  /**
+   * Rewrites a task's checkbox as an undoable edit
+   * @param id Task id from `getPlan` or `getTasksByState`
+   * @param state State id defined for the plan
+   * @returns true if the edit was applied
+   * @throws When the task or state doesn't exist in the plan
+   */
+  setTaskState(uri: Uri, id: string, state: string): Promise<boolean>;
+
+  /** Fires when a plan file changes on disk or in an editor, whether or not it is shown */
+  readonly onDidChangePlan: Event<ParsedPlan>;
+}
+
 /** Message types for webview communication */
 export enum MessageType {
   UpdatePlan = 'updatePlan',       // Extension → Webview: New plan data
@@ -65,7 +216,29 @@ export enum MessageType {
   SelectFile = 'selectFile',       // Webview → Extension: User changed file
   OpenSettings = 'openSettings',   // Webview → Extension: User clicked settings icon
   UpdateConfig = 'updateConfig',   // Extension → Webview: Send current config
-  SaveConfig = 'saveConfig'        // Webview → Extension: Save config changes
+  SaveConfig = 'saveConfig',       // Webview → Extension: Save config changes
+  SetTaskState = 'setTaskState',   // Webview → Extension: Change a task checkbox
+  ShowOverview = 'showOverview',   // Webview → Extension: User opened "All plans"
+  UpdateOverview = 'updateOverview', // Extension → Webview: Progress of every plan
+  SaveViewState = 'saveViewState', // Webview → Extension: Persist UI state
+  RestoreViewState = 'restoreViewState', // Extension → Webview: UI state from last session
+  OpenLink = 'openLink',           // Webview → Extension: User clicked a link in task text
+  UpdateBoard = 'updateBoard',     // Extension → Board: Columns and cards of a plan
+  BoardReady = 'boardReady',       // Board → Extension: Script loaded, ready for the plan
+  UpdateHistory = 'updateHistory', // Extension → History: Chart data of every plan
+  HistoryReady = 'historyReady',   // History → Extension: Script loaded, ready for the charts
+  ShowChanges = 'showChanges',     // Webview → Extension: Pick a commit to compare the plan with
+  CloseChanges = 'closeChanges',   // Webview → Extension: Back from "Changes since…" to the tasks
+  UpdateChanges = 'updateChanges', // Extension → Webview: Task changes since a commit
+  CopySubtree = 'copySubtree'      // Webview → Extension: Copy a heading and its tasks as Markdown
+}
+
+/** Webview UI state persisted per workspace */
+export interface ViewState {
+  expanded: string[];      // Ids of expanded headings/tasks
+  scrollTop: number;       // Scroll position of the task tree
+  filterText: string;      // Search box content
+  hiddenStates: string[];  // States toggled off in the filter bar
 }
 
 export interface NavigateMessage {
@@ -74,11 +247,128 @@ export interface NavigateMessage {
   line: number;
 }
 
+export interface OpenLinkMessage {
+  type: MessageType.OpenLink;
+  filePath: string;        // Plan the link is in; relative targets resolve against it
+  target: string;          // Link destination, e.g. "https://…" or "src/foo.ts#L42"
+}
+
 export interface UpdateMessage {
   type: MessageType.UpdatePlan;
   plan: ParsedPlan;
 }
 
+export interface SetTaskStateMessage {
+  type: MessageType.SetTaskState;
+  filePath: string;
+  id: string;
+  state?: string;          // State id; omitted to cycle [ ] → [>] → [x]
+}
+
+export interface CopySubtreeMessage {
+  type: MessageType.CopySubtree;
+  filePath: string;
+  id: string;              // Heading or task id
+}
+
+export interface UpdateOverviewMessage {
+  type: MessageType.UpdateOverview;
+  plans: PlanSummary[];
+  totalCount: number;      // Tasks across all plans
+  stateCount: StateCount;  // Counts across all plans
+  categoryCount: CategoryCount;
+  states: StateDefinition[]; // Every state used by the plans
+}
+
+/** A task on the Kanban board */
+export interface BoardCard {
+  id: string;
+  text: string;
+  state: string;           // State id, i.e. the column the card is in
+  group: string[];         // H2/H3 heading path the task is under
+  parent?: string;         // Text of the parent task, for subtasks
+  line: number;
+  assignees?: string[];
+  tags?: string[];
+  due?: string;
+  priority?: TaskPriority;
+}
+
+export interface UpdateBoardMessage {
+  type: MessageType.UpdateBoard;
+  filePath: string;
+  title: string;
+  states: StateDefinition[]; // One column per state, in this order
+  cards: BoardCard[];        // In document order
+}
+
+/** How a task differs from an earlier version of its plan */
+export enum TaskChangeKind {
+  Checked = 'checked',     // Moved into a done state
+  Restated = 'restated',   // Moved to any other state (including reopened)
+  Added = 'added',
+  Removed = 'removed'
+}
+
+/** A task that changed between two versions of a plan */
+export interface TaskDiff {
+  kind: TaskChangeKind;
+  id: string;              // Stable task id (edited tasks are matched by similarity)
+  text: string;            // Current text, or the text it had before removal
+  group: string[];         // Heading path of the task
+  from?: string;           // State id in the earlier version (missing for added tasks)
+  to?: string;             // Current state id (missing for removed tasks)
+  line?: number;           // Current line (missing for removed tasks)
+}
+
+export interface UpdateChangesMessage {
+  type: MessageType.UpdateChanges;
+  filePath: string;
+  ref: string;             // Git ref the plan is compared with, e.g. "HEAD" or "main"
+  changes: TaskDiff[];     // Checked, re-stated, added, then removed
+  error?: string;          // Why the comparison failed, e.g. not a git repository
+}
+
+/** One point of a plan's burndown chart */
+export interface HistoryPoint {
+  time: string;            // ISO timestamp of the snapshot
+  total: number;           // Tasks in the plan
+  done: number;            // Tasks in a done state (cumulative-done line)
+  remaining: number;       // Tasks not done yet (burndown line)
+}
+
+/** A task finished in the current week */
+export interface CompletedTask {
+  id: string;              // Task id as recorded in the history
+  text: string;
+  time: string;            // ISO timestamp of the snapshot that saw it done
+}
+
+/** Chart data for one plan */
+export interface PlanHistory {
+  filePath: string;
+  relativePath: string;
+  title: string;
+  points: HistoryPoint[];  // Oldest first
+  completed: CompletedTask[]; // Done since Monday, newest first
+}
+
+export interface UpdateHistoryMessage {
+  type: MessageType.UpdateHistory;
+  plans: PlanHistory[];
+  weekStart: string;       // ISO timestamp of Monday 00:00 local time
+}
+
+export interface SaveViewStateMessage {
+  type: MessageType.SaveViewState;
+  state: ViewState;
+}
+
+export interface RestoreViewStateMessage {
+  type: MessageType.RestoreViewState;
+  state: ViewState;
+}
+
 export interface SelectMessage {
   type: MessageType.SelectFile;
   filePath: string;
@@ -91,19 +381,40 @@ export interface OpenSettingsMessage {
 export interface UpdateConfigMessage {
   type: MessageType.UpdateConfig;
   config: TaskViewConfig;
+  folderPath: string;      // Workspace folder that owns the config
+  folderName: string;
+  isMultiRoot: boolean;    // Whether more than one folder is open
 }
 
 export interface SaveConfigMessage {
   type: MessageType.SaveConfig;
   config: TaskViewConfig;
+  folderPath: string;      // Workspace folder that owns the config
+}
+
+/** Threshold enforced by the `task-planner check` CLI command */
+export interface CheckRule {
+  files?: string;          // Glob of plan files the rule applies to (default: all)
+  maxBlocked?: number;     // Fail when more blocked tasks ([!]) remain
+  maxInProgress?: number;  // Fail when more active tasks ([>]) remain
+  maxPending?: number;     // Fail when more open tasks ([ ]) remain
+  minPercentDone?: number; // Fail when less than this share of tasks is done ([x])
 }
 
 /** Configuration structure for .codr/task-planner.json */
 export interface TaskViewConfig {
   exclusions: string[];  // Array of folder paths and glob patterns to exclude
+  include: string[];     // Glob patterns that identify plan files
+  caseInsensitive: boolean; // Match include patterns regardless of letter case
+  checks?: CheckRule[];  // Thresholds for `task-planner check`
+  autoAnchors?: boolean; // Append <!-- id:... --> to tasks without an anchor on save
+  propagateParentState?: boolean; // Rewrite parent checkboxes when their subtasks change
+  states?: StateDefinition[]; // Extra states, or overrides of the built-in ones by id or marker
 }
 
 /** Default configuration */
 export const DEFAULT_CONFIG: TaskViewConfig = {
-  exclusions: ['**/node_modules/**', '**/.git/**']
+  exclusions: ['**/node_modules/**', '**/.git/**'],
+  include: ['**/PLAN*.md'],
+  caseInsensitive: false
 };
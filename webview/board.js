@@ -0,0 +1,269 @@
+// Acquire VSCode API
+const vscode = acquireVsCodeApi();
+
+// Board state
+let currentBoard = null;
+let filterText = '';
+
+// Card being dragged, and the card to focus after the next render
+let draggedCardId = null;
+let focusCardId = null;
+
+// Message handler
+window.addEventListener('message', event => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'updateBoard':
+      currentBoard = message;
+      renderBoard();
+      break;
+  }
+});
+
+/**
+ * Renders one column per state, with the cards grouped by heading path
+ */
+function renderBoard() {
+  const app = document.getElementById('board');
+  if (!currentBoard) {
+    return;
+  }
+
+  const hasFocus = app.contains(document.activeElement);
+  const filterHasFocus = document.activeElement && document.activeElement.id === 'board-filter';
+  const cards = currentBoard.cards.filter(matchesFilter);
+
+  app.innerHTML = `
+    <div class="board-toolbar">
+      <div class="board-title">${escapeHtml(currentBoard.title)}</div>
+      <div class="board-count">${currentBoard.cards.length} tasks</div>
+      <input type="text" id="board-filter" placeholder="Filter cards, @assignees, #tags..." value="${escapeHtml(filterText)}" />
+    </div>
+    <div class="board-columns">
+      ${currentBoard.states.map(state => renderColumn(state, cards.filter(card => card.state === state.id))).join('')}
+    </div>
+  `;
+
+  attachEventListeners();
+
+  if (filterHasFocus) {
+    const input = document.getElementById('board-filter');
+    input.focus();
+    input.setSelectionRange(input.value.length, input.value.length);
+  } else if (focusCardId || hasFocus) {
+    const card = focusCardId && app.querySelector(`.card[data-id="${CSS.escape(focusCardId)}"]`);
+    if (card) {
+      card.focus();
+    }
+  }
+  focusCardId = null;
+}
+
+function renderColumn(state, cards) {
+  const color = toCssColor(state.color);
+  const style = color ? `style="--state-color: ${color}"` : '';
+  const icon = state.icon
+    ? `<span class="codicon codicon-${escapeHtml(state.icon)}"></span>`
+    : '<span class="column-swatch"></span>';
+
+  // Cards arrive in document order, so groups keep the order of the plan
+  const groups = new Map();
+  for (const card of cards) {
+    const key = card.group.join(' › ');
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key).push(card);
+  }
+
+  return `
+    <section class="column category-${escapeHtml(state.category)}" data-state="${escapeHtml(state.id)}" ${style} aria-label="${escapeHtml(state.label)}, ${cards.length} tasks">
+      <header class="column-header">
+        ${icon}
+        <span class="column-label">${escapeHtml(state.label)}</span>
+        <span class="column-marker">[${escapeHtml(state.marker)}]</span>
+        <span class="column-count">${cards.length}</span>
+      </header>
+      <div class="column-body">
+        ${Array.from(groups.entries()).map(([group, groupCards]) => `
+          <div class="card-group">
+            ${group ? `<div class="group-label" title="${escapeHtml(group)}">${escapeHtml(group)}</div>` : ''}
+            ${groupCards.map(renderCard).join('')}
+          </div>
+        `).join('')}
+      </div>
+    </section>
+  `;
+}
+
+function renderCard(card) {
+  const chips = [];
+  (card.assignees || []).forEach(name => chips.push(`<span class="chip assignee">@${escapeHtml(name)}</span>`));
+  (card.tags || []).forEach(tag => chips.push(`<span class="chip tag">#${escapeHtml(tag)}</span>`));
+  if (card.due) {
+    chips.push(`<span class="chip due" title="Due: ${escapeHtml(card.due)}">${escapeHtml(card.due)}</span>`);
+  }
+  if (card.priority) {
+    chips.push(`<span class="chip priority ${escapeHtml(card.priority)}">!${escapeHtml(card.priority)}</span>`);
+  }
+
+  return `
+    <div class="card" draggable="true" tabindex="0" data-id="${escapeHtml(card.id)}" data-line="${card.line}"
+      title="Drag to another column to change the state · double-click to open" aria-roledescription="card">
+      ${card.parent ? `<div class="card-parent">↳ ${escapeHtml(card.parent)}</div>` : ''}
+      <div class="card-text">${escapeHtml(card.text)}</div>
+      ${chips.length > 0 ? `<div class="card-chips">${chips.join('')}</div>` : ''}
+    </div>
+  `;
+}
+
+/**
+ * Matches card text, group and parent; @name and #tag only match assignees and tags
+ */
+function matchesFilter(card) {
+  const terms = filterText.toLowerCase().split(/\s+/).filter(Boolean);
+
+  return terms.every(term => {
+    if (term.startsWith('@') && term.length > 1) {
+      return (card.assignees || []).some(name => name.toLowerCase().includes(term.slice(1)));
+    }
+    if (term.startsWith('#') && term.length > 1) {
+      return (card.tags || []).some(tag => tag.toLowerCase().includes(term.slice(1)));
+    }
+    return [card.text, card.parent || '', ...card.group].some(text => text.toLowerCase().includes(term));
+  });
+}
+
+function attachEventListeners() {
+  document.getElementById('board-filter').addEventListener('input', event => {
+    filterText = event.target.value;
+    renderBoard();
+  });
+
+  document.querySelectorAll('.card').forEach(card => {
+    card.addEventListener('dragstart', event => {
+      draggedCardId = card.dataset.id;
+      event.dataTransfer.effectAllowed = 'move';
+      event.dataTransfer.setData('text/plain', card.dataset.id);
+      card.classList.add('dragging');
+    });
+
+    card.addEventListener('dragend', () => {
+      draggedCardId = null;
+      card.classList.remove('dragging');
+      document.querySelectorAll('.column.drop-target').forEach(column => column.classList.remove('drop-target'));
+    });
+
+    card.addEventListener('dblclick', () => openCard(card));
+
+    // Arrow keys move the card between columns, Enter opens it
+    card.addEventListener('keydown', event => {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        openCard(card);
+      } else if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+        event.preventDefault();
+        moveCardBy(card.dataset.id, event.key === 'ArrowLeft' ? -1 : 1);
+      }
+    });
+  });
+
+  document.querySelectorAll('.column').forEach(column => {
+    column.addEventListener('dragover', event => {
+      if (draggedCardId) {
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'move';
+        column.classList.add('drop-target');
+      }
+    });
+
+    column.addEventListener('dragleave', event => {
+      if (!column.contains(event.relatedTarget)) {
+        column.classList.remove('drop-target');
+      }
+    });
+
+    column.addEventListener('drop', event => {
+      event.preventDefault();
+      column.classList.remove('drop-target');
+
+      const id = event.dataTransfer.getData('text/plain') || draggedCardId;
+      if (id) {
+        moveCard(id, column.dataset.state);
+      }
+    });
+  });
+}
+
+function moveCardBy(id, offset) {
+  const card = currentBoard.cards.find(candidate => candidate.id === id);
+  if (!card) {
+    return;
+  }
+
+  const index = currentBoard.states.findIndex(state => state.id === card.state);
+  const target = currentBoard.states[index + offset];
+  if (target) {
+    moveCard(id, target.id);
+  }
+}
+
+/**
+ * Moves the card right away; the extension edits the checkbox and the next
+ * update confirms it (or puts the card back)
+ */
+function moveCard(id, state) {
+  const card = currentBoard.cards.find(candidate => candidate.id === id);
+  if (!card || card.state === state) {
+    return;
+  }
+
+  card.state = state;
+  focusCardId = id;
+  renderBoard();
+
+  vscode.postMessage({
+    type: 'setTaskState',
+    filePath: currentBoard.filePath,
+    id,
+    state
+  });
+}
+
+function openCard(card) {
+  vscode.postMessage({
+    type: 'navigateToLine',
+    filePath: currentBoard.filePath,
+    line: parseInt(card.dataset.line, 10)
+  });
+}
+
+/**
+ * Turns a state color into CSS: theme color ids become VS Code theme variables
+ */
+function toCssColor(color) {
+  if (!color) {
+    return null;
+  }
+  if (/^(#[0-9a-f]{3,8}|(rgba?|hsla?)\([\d\s.,%]+\))$/i.test(color)) {
+    return color;
+  }
+  if (/^[a-z][\w-]*(\.[\w-]+)*$/i.test(color)) {
+    return `var(--vscode-${color.replace(/\./g, '-')})`;
+  }
+  return null;
+}
+
+/**
+ * Escapes HTML to prevent XSS
+ */
+function escapeHtml(text) {
+  const div = document.createElement('div');
+  div.textContent = text;
+  // innerHTML leaves quotes alone, but the result also goes into attributes
+  return div.innerHTML.replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+// Ask for the plan once the script is listening
+vscode.postMessage({ type: 'boardReady' });
@@ -0,0 +1,142 @@
+// Acquire VSCode API
+const vscode = acquireVsCodeApi();
+
+// Chart size in SVG units; the SVG scales to the panel width
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = { top: 12, right: 16, bottom: 24, left: 36 };
+
+// Message handler
+window.addEventListener('message', event => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'updateHistory':
+      renderHistory(message);
+      break;
+  }
+});
+
+/**
+ * Renders a chart and the tasks completed this week for every plan
+ */
+function renderHistory(message) {
+  const app = document.getElementById('history');
+
+  if (message.plans.length === 0) {
+    app.innerHTML = '<div class="empty">No plan files found</div>';
+    return;
+  }
+
+  app.innerHTML = `
+    <div class="legend">
+      <span class="legend-item remaining">Remaining (burndown)</span>
+      <span class="legend-item done">Done (cumulative)</span>
+    </div>
+    ${message.plans.map(plan => renderPlan(plan, message.weekStart)).join('')}
+  `;
+
+  document.querySelectorAll('.plan-title').forEach(title => {
+    title.addEventListener('click', () => {
+      vscode.postMessage({
+        type: 'selectFile',
+        filePath: title.dataset.file
+      });
+    });
+  });
+}
+
+function renderPlan(plan, weekStart) {
+  const last = plan.points[plan.points.length - 1];
+
+  return `
+    <section class="plan">
+      <header class="plan-header">
+        <span class="plan-title" data-file="${escapeHtml(plan.filePath)}" title="Show in the Tasks view">${escapeHtml(plan.title)}</span>
+        <span class="plan-path">${escapeHtml(plan.relativePath)}</span>
+        ${last ? `<span class="plan-summary">${last.done}/${last.total} done</span>` : ''}
+      </header>
+      ${plan.points.length > 0
+        ? renderChart(plan.points)
+        : '<div class="empty">No history yet. Snapshots are recorded each time the plan changes.</div>'}
+      ${renderCompleted(plan.completed, weekStart)}
+    </section>
+  `;
+}
+
+/**
+ * Step lines of remaining and done tasks, from the first snapshot until now
+ */
+function renderChart(points) {
+  const start = new Date(points[0].time).getTime();
+  const end = Math.max(Date.now(), start + 1);
+  const max = Math.max(1, ...points.map(point => point.total));
+
+  const width = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const height = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const x = time => CHART_PADDING.left + (new Date(time).getTime() - start) / (end - start) * width;
+  const y = count => CHART_PADDING.top + height - count / max * height;
+
+  // Counts hold until the next snapshot, so each line steps
+  const stepPath = key => points.map((point, index) => index === 0
+    ? `M ${x(point.time)} ${y(point[key])}`
+    : `H ${x(point.time)} V ${y(point[key])}`
+  ).join(' ') + ` H ${x(end)}`;
+
+  const markers = points.map(point => `
+    <circle class="marker" cx="${x(point.time)}" cy="${y(point.remaining)}" r="3">
+      <title>${formatDate(point.time)}: ${point.remaining} remaining, ${point.done} done of ${point.total}</title>
+    </circle>
+  `).join('');
+
+  return `
+    <svg class="chart" viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" role="img"
+      aria-label="${points.length} snapshots, ${points[points.length - 1].remaining} tasks remaining">
+      <line class="axis" x1="${CHART_PADDING.left}" y1="${y(0)}" x2="${CHART_PADDING.left + width}" y2="${y(0)}" />
+      <line class="grid" x1="${CHART_PADDING.left}" y1="${y(max)}" x2="${CHART_PADDING.left + width}" y2="${y(max)}" />
+      <text class="label" x="${CHART_PADDING.left - 6}" y="${y(max) + 4}" text-anchor="end">${max}</text>
+      <text class="label" x="${CHART_PADDING.left - 6}" y="${y(0) + 4}" text-anchor="end">0</text>
+      <text class="label" x="${CHART_PADDING.left}" y="${CHART_HEIGHT - 6}">${formatDate(points[0].time)}</text>
+      <text class="label" x="${CHART_PADDING.left + width}" y="${CHART_HEIGHT - 6}" text-anchor="end">now</text>
+      <path class="line remaining" d="${stepPath('remaining')}" />
+      <path class="line done" d="${stepPath('done')}" />
+      ${markers}
+    </svg>
+  `;
+}
+
+function renderCompleted(completed, weekStart) {
+  const heading = `Completed this week (since ${formatDate(weekStart)})`;
+
+  if (completed.length === 0) {
+    return `<div class="completed"><div class="completed-title">${heading}</div><div class="empty">Nothing yet</div></div>`;
+  }
+
+  return `
+    <div class="completed">
+      <div class="completed-title">${heading} · ${completed.length}</div>
+      <ul>
+        ${completed.map(task => `
+          <li><span class="completed-date">${formatDate(task.time)}</span>${escapeHtml(task.text)}</li>
+        `).join('')}
+      </ul>
+    </div>
+  `;
+}
+
+function formatDate(time) {
+  return new Date(time).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+/**
+ * Escapes HTML to prevent XSS
+ */
+function escapeHtml(text) {
+  const div = document.createElement('div');
+  div.textContent = text;
+  // innerHTML leaves quotes alone, but the result also goes into attributes
+  return div.innerHTML.replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+// Ask for the charts once the script is listening
+vscode.postMessage({ type: 'historyReady' });
@@ -6,7 +6,45 @@ let currentPlan = null;
 let availableFiles = [];
 let expandedSections = new Set();
 let currentConfig = null;
+let currentConfigFolder = null;
 let isSettingsOpen = false;
+let currentOverview = null;
+let isOverviewOpen = false;
+
+// "Changes since…" mode: task changes compared with a git ref, shown instead of the tree
+let currentChanges = null;
+let isChangesOpen = false;
+
+// Task tree filter (kept across refreshes)
+let filterText = '';
+let hiddenStates = new Set();
+
+// Scroll position to restore once the next tree is rendered
+let pendingScrollTop = null;
+let viewStateTimer = null;
+
+// File selector value for the "All plans" overview
+const OVERVIEW_OPTION = '__overview__';
+
+// Delay before UI state is sent to the extension for the next session
+const VIEW_STATE_SAVE_DELAY = 500;
+
+// Sections of the "Changes since…" mode, in display order
+const CHANGE_KINDS = [
+  { id: 'checked', label: 'Checked' },
+  { id: 'restated', label: 'Changed state' },
+  { id: 'added', label: 'Added' },
+  { id: 'removed', label: 'Removed' }
+];
+
+// States with their own checkbox and badge styles; configured states are drawn from their color and icon
+const BUILT_IN_STATES = ['pending', 'done', 'incomplete', 'in-progress', 'blocked'];
+
+// Restore UI state kept by VS Code while the view was hidden
+const savedState = vscode.getState();
+if (savedState) {
+  applyViewState(savedState);
+}
 
 // Message handler
 window.addEventListener('message', event => {
@@ -15,6 +53,7 @@ window.addEventListener('message', event => {
   switch (message.type) {
     case 'updatePlan':
       currentPlan = message.plan;
+      isOverviewOpen = false;
       if (!isSettingsOpen) {
         renderPlan(currentPlan);
       }
@@ -22,13 +61,35 @@ window.addEventListener('message', event => {
 
     case 'fileList':
       availableFiles = message.files;
+      isOverviewOpen = message.isOverview;
       if (!isSettingsOpen) {
         renderFileSelector();
       }
       break;
 
+    case 'updateOverview':
+      currentOverview = message;
+      isOverviewOpen = true;
+      if (!isSettingsOpen) {
+        renderOverview(currentOverview);
+      }
+      break;
+
+    case 'updateChanges':
+      currentChanges = message;
+      isChangesOpen = true;
+      if (!isSettingsOpen && currentPlan && !isOverviewOpen) {
+        renderPlan(currentPlan);
+      }
+      break;
+
     case 'updateConfig':
       currentConfig = message.config;
+      currentConfigFolder = {
+        path: message.folderPath,
+        name: message.folderName,
+        isMultiRoot: message.isMultiRoot
+      };
       // Always render settings when config is received
       renderSettings(currentConfig);
       break;
@@ -44,9 +105,61 @@ window.addEventListener('message', event => {
     case 'empty':
       renderEmptyState();
       break;
+
+    case 'restoreViewState':
+      // Local state is newer when the view was only hidden
+      if (!savedState) {
+        applyViewState(message.state);
+      }
+      break;
+  }
+});
+
+window.addEventListener('scroll', () => {
+  if (pendingScrollTop === null) {
+    saveViewState();
   }
 });
 
+/**
+ * Loads expanded nodes, filter and scroll position from a saved state
+ */
+function applyViewState(state) {
+  expandedSections = new Set(state.expanded || []);
+  filterText = state.filterText || '';
+  hiddenStates = new Set(state.hiddenStates || []);
+  pendingScrollTop = state.scrollTop || 0;
+}
+
+/**
+ * Saves UI state in the webview and, debounced, in the workspace
+ */
+function saveViewState() {
+  const state = {
+    expanded: Array.from(expandedSections),
+    scrollTop: pendingScrollTop !== null ? pendingScrollTop : window.scrollY,
+    filterText,
+    hiddenStates: Array.from(hiddenStates)
+  };
+
+  vscode.setState(state);
+
+  clearTimeout(viewStateTimer);
+  viewStateTimer = setTimeout(() => {
+    vscode.postMessage({ type: 'saveViewState', state });
+  }, VIEW_STATE_SAVE_DELAY);
+}
+
+/**
+ * Scrolls back to the saved position after the first render
+ */
+function restoreScrollPosition() {
+  if (pendingScrollTop !== null) {
+    window.scrollTo(0, pendingScrollTop);
+    pendingScrollTop = null;
+  }
+}
+
 /**
  * Renders the plan in the UI
  */
@@ -62,29 +175,360 @@ function renderPlan(plan) {
     <div class="header">
       <div class="title">${escapeHtml(plan.title)}</div>
       <div class="stats">
-        <span class="badge pending" data-tooltip="Pending [ ]">${plan.stateCount.pending}</span>
-        <span class="badge done" data-tooltip="Done [x]">${plan.stateCount.done}</span>
-        <span class="badge incomplete" data-tooltip="Incomplete [-]">${plan.stateCount.incomplete}</span>
-        <span class="badge in-progress" data-tooltip="In Progress [>]">${plan.stateCount.inProgress}</span>
-        <span class="badge blocked" data-tooltip="Blocked [!]">${plan.stateCount.blocked}</span>
+        ${renderStateBadges(plan.stateCount, !isChangesOpen)}
         <span class="spacer"></span>
-        <button class="action-btn" id="collapse-all" data-tooltip="Collapse All">−</button>
-        <button class="action-btn" id="expand-all" data-tooltip="Expand All">+</button>
+        <button class="action-btn" id="show-changes" data-tooltip="Changes since…">±</button>
+        ${isChangesOpen ? '' : `
+          <button class="action-btn" id="collapse-all" data-tooltip="Collapse All">−</button>
+          <button class="action-btn" id="expand-all" data-tooltip="Expand All">+</button>
+        `}
       </div>
     </div>
-    <div class="task-list">
-      ${renderTaskList(plan.tasks)}
-    </div>
+    ${isChangesOpen ? '' : renderFilterBar()}
+    <div class="task-list" id="task-list"></div>
   `;
 
   // Render file selector
   renderFileSelector();
 
-  // Attach click handlers
-  attachHandlers();
+  document.getElementById('show-changes').addEventListener('click', () => {
+    vscode.postMessage({ type: 'showChanges' });
+  });
+
+  if (isChangesOpen) {
+    renderChanges(plan);
+    return;
+  }
+
+  // Render (filtered) tree and attach its click handlers
+  renderFilteredTaskList();
 
   // Attach expand/collapse all handlers
   attachExpandCollapseHandlers();
+
+  // Attach filter bar and badge handlers
+  attachFilterHandlers();
+
+  restoreScrollPosition();
+}
+
+/**
+ * Renders "Changes since…": checked, re-stated, added and removed tasks
+ * compared with the plan at a git ref
+ */
+function renderChanges(plan) {
+  const container = document.getElementById('task-list');
+  const changes = currentChanges && currentChanges.filePath === plan.filePath ? currentChanges : null;
+
+  const header = `
+    <div class="changes-header">
+      <span class="changes-title">Changes since <code>${escapeHtml(changes ? changes.ref : '…')}</code></span>
+      <button class="changes-btn" id="change-ref" title="Compare with another branch, tag or commit">Change…</button>
+      <button class="changes-btn" id="close-changes" title="Back to the task tree">×</button>
+    </div>
+  `;
+
+  let body;
+  if (!changes) {
+    body = '<div class="loading">Comparing with git...</div>';
+  } else if (changes.error) {
+    body = `<div class="error">${escapeHtml(changes.error)}</div>`;
+  } else if (changes.changes.length === 0) {
+    body = `<div class="empty-state"><p>No task changes since ${escapeHtml(changes.ref)}</p></div>`;
+  } else {
+    body = CHANGE_KINDS
+      .map(kind => ({ ...kind, items: changes.changes.filter(change => change.kind === kind.id) }))
+      .filter(kind => kind.items.length > 0)
+      .map(kind => `
+        <div class="change-section change-${kind.id}">
+          <div class="change-section-title">${kind.label} <span class="change-count">${kind.items.length}</span></div>
+          ${kind.items.map(renderChange).join('')}
+        </div>
+      `).join('');
+  }
+
+  container.innerHTML = header + body;
+
+  document.getElementById('change-ref').addEventListener('click', () => {
+    vscode.postMessage({ type: 'showChanges' });
+  });
+
+  document.getElementById('close-changes').addEventListener('click', () => {
+    isChangesOpen = false;
+    currentChanges = null;
+    vscode.postMessage({ type: 'closeChanges' });
+    renderPlan(currentPlan);
+  });
+
+  container.querySelectorAll('.change-row[data-line]').forEach(row => {
+    row.addEventListener('click', () => {
+      vscode.postMessage({
+        type: 'navigateToLine',
+        filePath: currentPlan.filePath,
+        line: parseInt(row.dataset.line, 10)
+      });
+    });
+  });
+}
+
+/**
+ * One changed task with its state transition, e.g. [ ] → [x]
+ */
+function renderChange(change) {
+  const from = change.from ? getStateDefinition(change.from) : null;
+  const to = change.to ? getStateDefinition(change.to) : null;
+  const transition = [from, to].filter(Boolean).map(formatStateLabel).join(' → ');
+
+  const checkboxes = [
+    change.from ? renderCheckbox(change.from) : '',
+    change.from && change.to ? '<span class="change-arrow">→</span>' : '',
+    change.to ? renderCheckbox(change.to) : ''
+  ].join('');
+
+  return `
+    <div class="change-row" ${change.line !== undefined ? `data-line="${change.line}"` : ''} title="${escapeHtml(transition)}">
+      <span class="change-states">${checkboxes}</span>
+      <span class="change-text">${escapeHtml(change.text)}</span>
+      ${change.group.length > 0 ? `<div class="change-path">${escapeHtml(change.group.join(' › '))}</div>` : ''}
+    </div>
+  `;
+}
+
+/**
+ * Renders the task tree of the current plan with the active filter applied
+ */
+function renderFilteredTaskList() {
+  const container = document.getElementById('task-list');
+  if (!container || !currentPlan) {
+    return;
+  }
+
+  if (isFilterActive()) {
+    const filtered = filterItems(currentPlan.tasks);
+    container.innerHTML = filtered.length > 0
+      ? renderTaskList(filtered)
+      : '<div class="empty-state"><p>No tasks match the filter</p></div>';
+  } else {
+    container.innerHTML = renderTaskList(currentPlan.tasks);
+  }
+
+  attachHandlers();
+
+  saveViewState();
+}
+
+/**
+ * Renders the search box and one show/hide toggle per task state
+ */
+function renderFilterBar() {
+  return `
+    <div class="filter-bar">
+      <input type="text" id="filter-text" placeholder="Filter tasks, @assignees, #tags..." value="${escapeHtml(filterText)}" />
+      <div class="filter-states">
+        ${getStates().map(state => `
+          <button class="filter-toggle ${hiddenStates.has(state.id) ? 'off' : ''}" data-state="${escapeHtml(state.id)}" title="${hiddenStates.has(state.id) ? 'Show' : 'Hide'} ${escapeHtml(formatStateLabel(state))}">
+            ${renderCheckbox(state.id)}
+          </button>
+        `).join('')}
+        <button class="filter-clear" id="filter-clear" title="Clear filter" ${isFilterActive() ? '' : 'disabled'}>×</button>
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Attaches handlers for the filter bar and the clickable state badges
+ */
+function attachFilterHandlers() {
+  const input = document.getElementById('filter-text');
+  if (input) {
+    input.addEventListener('input', (e) => {
+      filterText = e.target.value;
+      // Only redraw the tree so the input keeps focus
+      renderFilteredTaskList();
+      updateFilterClear();
+    });
+  }
+
+  // State toggles: show/hide one state
+  document.querySelectorAll('.filter-toggle').forEach(el => {
+    el.addEventListener('click', () => {
+      const state = el.dataset.state;
+      if (hiddenStates.has(state)) {
+        hiddenStates.delete(state);
+      } else {
+        hiddenStates.add(state);
+      }
+      renderPlan(currentPlan);
+    });
+  });
+
+  // Badges: show only that state, click again to show all
+  document.querySelectorAll('.badge[data-state]').forEach(el => {
+    el.addEventListener('click', () => {
+      const state = el.dataset.state;
+      const others = getStates().map(option => option.id).filter(s => s !== state);
+      const isOnlyThisState = !hiddenStates.has(state) && others.every(s => hiddenStates.has(s));
+
+      hiddenStates = isOnlyThisState ? new Set() : new Set(others);
+      renderPlan(currentPlan);
+    });
+  });
+
+  document.getElementById('filter-clear')?.addEventListener('click', () => {
+    filterText = '';
+    hiddenStates.clear();
+    renderPlan(currentPlan);
+  });
+}
+
+/**
+ * Enables the clear button only while a filter is active
+ */
+function updateFilterClear() {
+  const clearBtn = document.getElementById('filter-clear');
+  if (clearBtn) {
+    clearBtn.disabled = !isFilterActive();
+  }
+}
+
+/**
+ * Whether any search text or state toggle is restricting the tree
+ */
+function isFilterActive() {
+  return filterText.trim() !== '' || hiddenStates.size > 0;
+}
+
+/**
+ * Returns a pruned copy of the tree with only matching tasks and their ancestors
+ */
+function filterItems(items) {
+  const query = filterText.trim().toLowerCase();
+
+  return items.reduce((result, item) => {
+    const children = filterItems(item.children || []);
+    const matches = item.type === 'task' && !hiddenStates.has(item.state) && matchesText(item, query);
+
+    // Keep matching tasks, and any item with matching descendants for context
+    if (matches || children.length > 0) {
+      result.push({ ...item, children });
+    }
+
+    return result;
+  }, []);
+}
+
+/**
+ * Checks a task's text, assignees and tags against the search query
+ */
+function matchesText(item, query) {
+  if (!query) {
+    return true;
+  }
+
+  const haystack = [
+    item.text,
+    item.notes || '',
+    ...(item.assignees || []).map(name => `@${name}`),
+    ...(item.tags || []).map(tag => `#${tag}`)
+  ].join(' ').toLowerCase();
+
+  return haystack.includes(query);
+}
+
+/**
+ * Renders one badge per task state
+ */
+function renderStateBadges(stateCount, filterable = false) {
+  return getStates().map(state => {
+    const tooltip = escapeHtml(formatStateLabel(state));
+    const { className, style } = getStateStyle(state, 'badge');
+    const dimmed = filterable && hiddenStates.has(state.id) ? 'dimmed' : '';
+    const count = stateCount[state.id] || 0;
+
+    return filterable
+      ? `<span class="badge ${className} filterable ${dimmed}" ${style} data-state="${escapeHtml(state.id)}" data-tooltip="${tooltip} - click to filter">${count}</span>`
+      : `<span class="badge ${className}" ${style} data-tooltip="${tooltip}">${count}</span>`;
+  }).join('');
+}
+
+/**
+ * Renders a progress bar with done, active and blocked segments
+ * A plan without tasks shows as complete, like in exports and the CLI.
+ */
+function renderProgressBar(categoryCount, totalCount) {
+  const percent = count => totalCount > 0 ? (count / totalCount) * 100 : 0;
+  const donePercent = totalCount > 0 ? percent(categoryCount.done) : 100;
+
+  return `
+    <div class="progress-bar">
+      <span class="progress-segment done" style="width: ${donePercent}%"></span>
+      <span class="progress-segment in-progress" style="width: ${percent(categoryCount.active)}%"></span>
+      <span class="progress-segment blocked" style="width: ${percent(categoryCount.blocked)}%"></span>
+    </div>
+  `;
+}
+
+/**
+ * Formats the share of done tasks as a whole percentage; a plan without tasks is 100%
+ */
+function formatPercentDone(categoryCount, totalCount) {
+  return totalCount > 0 ? `${Math.round((categoryCount.done / totalCount) * 100)}%` : '100%';
+}
+
+/**
+ * Renders the "All plans" overview with per-file progress and a grand total
+ */
+function renderOverview(overview) {
+  if (!overview) {
+    renderEmptyState();
+    return;
+  }
+
+  const app = document.getElementById('app');
+  app.innerHTML = `
+    <div class="file-selector" id="file-selector"></div>
+    <div class="header">
+      <div class="title-row">
+        <span class="title">All plans</span>
+        <span class="overview-percent">${formatPercentDone(overview.categoryCount, overview.totalCount)}</span>
+      </div>
+      <div class="stats">
+        ${renderStateBadges(overview.stateCount)}
+      </div>
+      ${renderProgressBar(overview.categoryCount, overview.totalCount)}
+      <div class="overview-summary">${overview.categoryCount.done}/${overview.totalCount} tasks done in ${overview.plans.length} plans</div>
+    </div>
+    <div class="overview-list">
+      ${overview.plans.map(plan => `
+        <div class="overview-row" data-file="${escapeHtml(plan.filePath)}" title="Open ${escapeHtml(plan.relativePath)}">
+          <div class="title-row">
+            <span class="overview-title">${escapeHtml(plan.title)}</span>
+            <span class="overview-percent">${formatPercentDone(plan.categoryCount, plan.totalCount)}</span>
+          </div>
+          <div class="overview-path">${escapeHtml(plan.folder ? `${plan.folder} · ${plan.relativePath}` : plan.relativePath)}</div>
+          ${renderProgressBar(plan.categoryCount, plan.totalCount)}
+          <div class="overview-counts">
+            ${plan.categoryCount.done}/${plan.totalCount} done
+            ${plan.categoryCount.active > 0 ? ` · ${plan.categoryCount.active} in progress` : ''}
+            ${plan.categoryCount.blocked > 0 ? ` · ${plan.categoryCount.blocked} blocked` : ''}
+          </div>
+        </div>
+      `).join('')}
+    </div>
+  `;
+
+  renderFileSelector();
+
+  // Click on a row: drill into that plan's tree
+  document.querySelectorAll('.overview-row').forEach(el => {
+    el.addEventListener('click', () => {
+      vscode.postMessage({
+        type: 'selectFile',
+        filePath: el.dataset.file
+      });
+    });
+  });
 }
 
 /**
@@ -96,16 +540,28 @@ function renderFileSelector() {
     return;
   }
 
-  const currentPath = currentPlan ? currentPlan.filePath : '';
+  const currentPath = isOverviewOpen ? OVERVIEW_OPTION : (currentPlan ? currentPlan.filePath : '');
+  const renderOption = file => `
+    <option value="${escapeHtml(file.path)}" ${file.path === currentPath ? 'selected' : ''}>
+      ${escapeHtml(file.relativePath)}
+    </option>
+  `;
+
+  // Group files by workspace folder when more than one folder has plans
+  const folders = [...new Set(availableFiles.map(file => file.folder))];
+  const options = folders.length > 1
+    ? folders.map(folder => `
+        <optgroup label="${escapeHtml(folder)}">
+          ${availableFiles.filter(file => file.folder === folder).map(renderOption).join('')}
+        </optgroup>
+      `).join('')
+    : availableFiles.map(renderOption).join('');
 
   container.innerHTML = `
     <div class="file-selector-wrapper">
       <select id="file-select">
-        ${availableFiles.map(file => `
-          <option value="${escapeHtml(file.path)}" ${file.path === currentPath ? 'selected' : ''}>
-            ${escapeHtml(file.relativePath)}
-          </option>
-        `).join('')}
+        <option value="${OVERVIEW_OPTION}" ${isOverviewOpen ? 'selected' : ''}>All plans</option>
+        ${options}
       </select>
       <button class="settings-btn" id="settings-btn" data-tooltip="Settings" title="Configure Task View">⚙</button>
     </div>
@@ -115,6 +571,13 @@ function renderFileSelector() {
   const select = document.getElementById('file-select');
   if (select) {
     select.addEventListener('change', (e) => {
+      if (e.target.value === OVERVIEW_OPTION) {
+        vscode.postMessage({
+          type: 'showOverview'
+        });
+        return;
+      }
+
       vscode.postMessage({
         type: 'selectFile',
         filePath: e.target.value
@@ -143,7 +606,8 @@ function renderTaskList(items, level = 0) {
 
   return items.map(item => {
     const hasChildren = item.children && item.children.length > 0;
-    const isExpanded = expandedSections.has(item.id);
+    // While filtering, show every matching branch open
+    const isExpanded = isFilterActive() || expandedSections.has(item.id);
     const isHeading = item.type === 'heading';
     const isTask = item.type === 'task';
 
@@ -168,18 +632,27 @@ function renderTaskList(items, level = 0) {
         </div>
       `;
     } else if (isTask) {
-      // Render task
-      const checkboxClass = getCheckboxClass(item.state, hasChildren ? item.aggregatedStatus : null);
+      // Render task; unfinished prerequisites make it effectively blocked
+      const checkbox = item.waiting
+        ? `<span class="checkbox blocked waiting toggleable" data-id="${escapeHtml(item.id)}" title="Waiting on prerequisites · click to cycle state"></span>`
+        : renderCheckbox(item.state, hasChildren ? item.aggregatedStatus : null, 'toggleable', `data-id="${escapeHtml(item.id)}" title="Click to cycle state"`);
+      // Notes open with the task, but not just because a filter is active
+      const isExpandable = hasChildren || !!item.notes;
+      const showNotes = !!item.notes && expandedSections.has(item.id);
 
       return `
-        <div class="accordion-item task-item" data-state="${item.state}" data-type="task" data-id="${escapeHtml(item.id)}" data-nest-level="${level}" ${hasChildren ? `data-has-children="true"` : ''}>
+        <div class="accordion-item task-item ${item.waiting ? 'waiting' : ''}" data-state="${escapeHtml(item.state)}" data-type="task" data-id="${escapeHtml(item.id)}" data-nest-level="${level}" ${isExpandable ? `data-has-children="true"` : ''}>
           <div class="accordion-header task-header" data-id="${escapeHtml(item.id)}">
-            <span class="checkbox ${checkboxClass}"></span>
-            <span class="task-text">${escapeHtml(item.text)}</span>
+            ${checkbox}
+            <span class="task-text">${item.markdown ? renderInlineMarkdown(item.markdown) : escapeHtml(item.text)}</span>
+            ${renderTaskChips(item)}
             <span class="copy-icon" data-text="${escapeHtml(item.text)}" title="Copy text">📋</span>
             <span class="link-icon" data-line="${item.line}" data-file="${escapeHtml(currentPlan.filePath)}">🔗</span>
-            ${hasChildren ? `<span class="chevron">${isExpanded ? '⯆' : '⯈'}</span>` : ''}
+            ${item.notes ? `<span class="notes-icon codicon codicon-note" title="${escapeHtml(item.notes)}"></span>` : ''}
+            ${isExpandable ? `<span class="chevron">${isExpanded || showNotes ? '⯆' : '⯈'}</span>` : ''}
           </div>
+          ${renderDependencies(item)}
+          ${showNotes ? `<div class="task-notes">${renderNotes(item.notes)}</div>` : ''}
           ${hasChildren && isExpanded ? `
             <div class="accordion-content">
               ${renderTaskList(item.children, level + 1)}
@@ -193,6 +666,285 @@ function renderTaskList(items, level = 0) {
   }).join('');
 }
 
+/**
+ * Renders assignee, tag, due date and priority chips for a task
+ */
+function renderTaskChips(item) {
+  const chips = [];
+
+  if (item.inCycle) {
+    chips.push('<span class="chip cycle" title="This task is part of a dependency cycle">⟳ cycle</span>');
+  }
+
+  if (item.priority) {
+    chips.push(`<span class="chip priority ${item.priority}" title="Priority: ${item.priority}">!${item.priority}</span>`);
+  }
+
+  (item.assignees || []).forEach(name => {
+    chips.push(`<span class="chip assignee" title="Assignee">@${escapeHtml(name)}</span>`);
+  });
+
+  (item.tags || []).forEach(tag => {
+    chips.push(`<span class="chip tag" title="Tag">#${escapeHtml(tag)}</span>`);
+  });
+
+  if (item.due) {
+    const overdue = isOverdue(item);
+    chips.push(`<span class="chip due ${overdue ? 'overdue' : ''}" title="${overdue ? 'Overdue' : 'Due'}: ${escapeHtml(item.due)}">${escapeHtml(item.due)}</span>`);
+  }
+
+  return chips.length > 0 ? `<span class="chips">${chips.join('')}</span>` : '';
+}
+
+/**
+ * Lists the tasks a task waits on and the tasks waiting on it
+ */
+function renderDependencies(item) {
+  const rows = [];
+
+  if (item.prerequisites && item.prerequisites.length > 0) {
+    rows.push(renderDependencyRow('Waits on', item.prerequisites));
+  }
+  if (item.dependents && item.dependents.length > 0) {
+    rows.push(renderDependencyRow('Needed by', item.dependents));
+  }
+
+  return rows.length > 0 ? `<div class="task-deps">${rows.join('')}</div>` : '';
+}
+
+function renderDependencyRow(label, references) {
+  const links = references.map(ref => `
+    <span class="dep-link ${ref.done ? 'done' : ''}" data-file="${escapeHtml(ref.filePath)}" data-line="${ref.line}" title="${escapeHtml(ref.filePath)}:${ref.line + 1}">${escapeHtml(ref.text)}</span>
+  `.trim());
+
+  return `<div class="dep-row"><span class="dep-label">${label}:</span> ${links.join(', ')}</div>`;
+}
+
+/**
+ * Renders the inline markdown of a task as HTML
+ *
+ * Only **bold**, *italic*, ~~strikethrough~~, `code` and [links](...) are
+ * turned into markup; everything else is escaped, so task text can't inject
+ * elements, styles or scripts.
+ */
+function renderInlineMarkdown(markdown) {
+  let html = '';
+  let plain = '';
+  let i = 0;
+
+  const flush = () => {
+    html += escapeHtml(plain);
+    plain = '';
+  };
+
+  while (i < markdown.length) {
+    const rest = markdown.slice(i);
+    const previous = markdown.charAt(i - 1);
+    let match;
+
+    if ((match = /^\\([!-\/:-@[-`{-~])/.exec(rest))) {
+      plain += match[1];
+    } else if ((match = /^(`+)(.+?)\1(?!`)/.exec(rest))) {
+      flush();
+      html += `<code>${escapeHtml(match[2].trim())}</code>`;
+    } else if ((match = /^\[((?:\\.|[^\]\\])+)\]\(\s*<?([^\s()<>"']*)>?(?:\s+"[^"]*")?\s*\)/.exec(rest))) {
+      flush();
+      html += renderMarkdownLink(match[1], match[2]);
+    } else if ((match = /^(\*\*|__)(?=\S)(.*?\S)\1/.exec(rest)) && !isIntraword(match, previous, rest)) {
+      flush();
+      html += `<strong>${renderInlineMarkdown(match[2])}</strong>`;
+    } else if ((match = /^~~(?=\S)(.*?\S)~~/.exec(rest))) {
+      flush();
+      html += `<del>${renderInlineMarkdown(match[1])}</del>`;
+    } else if ((match = /^([*_])(?=\S)(.*?\S)\1/.exec(rest)) && !isIntraword(match, previous, rest)) {
+      flush();
+      html += `<em>${renderInlineMarkdown(match[2])}</em>`;
+    } else {
+      plain += markdown.charAt(i);
+      i++;
+      continue;
+    }
+
+    i += match[0].length;
+  }
+
+  flush();
+  return html;
+}
+
+/**
+ * Renders the notes under a task: paragraphs, bullets, quotes and code blocks
+ * Text goes through renderInlineMarkdown, code is shown as is.
+ */
+function renderNotes(notes) {
+  const blocks = [];
+  const lines = notes.split('\n');
+  let paragraph = [];
+
+  const closeParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push(`<p>${renderInlineMarkdown(paragraph.join(' '))}</p>`);
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fence = /^\s*(`{3,}|~{3,})/.exec(line);
+    const bullet = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/.exec(line);
+    const quote = /^\s*>\s?(.*)$/.exec(line);
+
+    if (fence) {
+      closeParagraph();
+      const code = [];
+      while (++i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+      }
+      blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+    } else if (bullet) {
+      closeParagraph();
+      const depth = Math.floor(bullet[1].length / 2);
+      blocks.push(`<div class="note-bullet" style="margin-left: ${depth}em">${renderInlineMarkdown(bullet[2])}</div>`);
+    } else if (quote) {
+      closeParagraph();
+      blocks.push(`<blockquote>${renderInlineMarkdown(quote[1])}</blockquote>`);
+    } else if (line.trim() === '') {
+      closeParagraph();
+    } else {
+      paragraph.push(line.trim());
+    }
+  }
+
+  closeParagraph();
+  return blocks.join('');
+}
+
+/**
+ * Underscore emphasis doesn't apply inside words (snake_case_names)
+ */
+function isIntraword(match, previous, rest) {
+  return match[1].startsWith('_') && (/\w/.test(previous) || /\w/.test(rest.charAt(match[0].length)));
+}
+
+/**
+ * Renders a link from task text; the extension opens it on click
+ * Links with schemes other than http(s) and mailto are shown as plain text.
+ */
+function renderMarkdownLink(label, target) {
+  const content = renderInlineMarkdown(label);
+  const isWeb = /^(https?|mailto):/i.test(target);
+
+  if (!target || (!isWeb && /^[a-z][\w+.-]*:/i.test(target))) {
+    return `<span>${content}</span>`;
+  }
+
+  const kind = isWeb ? 'external' : 'file';
+  const title = isWeb ? target : `Open ${target}`;
+  return `<a class="md-link ${kind}" data-target="${escapeHtml(target)}" title="${escapeHtml(title)}">${content}</a>`;
+}
+
+/**
+ * Checks whether an unfinished task's due date has passed
+ */
+function isOverdue(item) {
+  if (!item.due || getStateCategory(item.state) === 'done') {
+    return false;
+  }
+
+  // Compare as YYYY-MM-DD in local time
+  const now = new Date();
+  const today = [
+    now.getFullYear(),
+    String(now.getMonth() + 1).padStart(2, '0'),
+    String(now.getDate()).padStart(2, '0')
+  ].join('-');
+
+  return item.due < today;
+}
+
+/**
+ * States of the plan or overview on screen, in display order
+ */
+function getStates() {
+  const source = isOverviewOpen ? currentOverview : currentPlan;
+  return (source && source.states) || [];
+}
+
+function getStateDefinition(id) {
+  return getStates().find(state => state.id === id);
+}
+
+/**
+ * Category of a state id (open, done, active or blocked)
+ */
+function getStateCategory(id) {
+  const state = getStateDefinition(id);
+  return state ? state.category : 'open';
+}
+
+/**
+ * Formats a state for menus and tooltips, e.g. "Blocked [!]"
+ */
+function formatStateLabel(state) {
+  return `${state.label} [${state.marker}]`;
+}
+
+/**
+ * Converts a state color to CSS: a theme color id such as "charts.blue"
+ * becomes its --vscode-* variable; anything else must be a plain color
+ * @returns {string|null} CSS color, or null if the value isn't safe to use
+ */
+function toCssColor(color) {
+  if (!color) {
+    return null;
+  }
+  if (/^(#[0-9a-f]{3,8}|(rgba?|hsla?)\([\d\s.,%]+\))$/i.test(color)) {
+    return color;
+  }
+  if (/^[a-z][\w-]*(\.[\w-]+)*$/i.test(color)) {
+    return `var(--vscode-${color.replace(/\./g, '-')})`;
+  }
+  return null;
+}
+
+/**
+ * Class and inline style for a state's checkbox or badge
+ *
+ * Built-in states keep their stylesheet look; configured states are tinted
+ * with their color through --state-color.
+ */
+function getStateStyle(state, element) {
+  if (BUILT_IN_STATES.includes(state.id)) {
+    return { className: element === 'badge' ? state.id : getCheckboxClass(state.id), style: '' };
+  }
+
+  const color = toCssColor(state.color);
+  return {
+    className: 'custom',
+    style: color ? `style="--state-color: ${escapeHtml(color)}"` : ''
+  };
+}
+
+/**
+ * Renders the checkbox of a task or state option
+ * @param {string} state - State id
+ * @param {string} aggregatedStatus - Aggregated status for tasks with children
+ * @param {string} classes - Extra classes for the element
+ * @param {string} attributes - Extra attributes for the element
+ */
+function renderCheckbox(state, aggregatedStatus = null, classes = '', attributes = '') {
+  const definition = getStateDefinition(state);
+
+  if (aggregatedStatus || !definition || BUILT_IN_STATES.includes(state)) {
+    return `<span class="checkbox ${getCheckboxClass(state, aggregatedStatus)} ${classes}" ${attributes}></span>`;
+  }
+
+  const { className, style } = getStateStyle(definition, 'checkbox');
+  return definition.icon
+    ? `<span class="checkbox ${className} codicon codicon-${escapeHtml(definition.icon)} ${classes}" ${style} ${attributes}></span>`
+    : `<span class="checkbox ${className} ${classes}" ${style} ${attributes}>${escapeHtml(definition.marker)}</span>`;
+}
+
 /**
  * Gets checkbox class based on status
  * @param {string} state - Task state or aggregated status
@@ -280,6 +1032,67 @@ function attachHandlers() {
     });
   });
 
+  // Click on a link in task text: URLs open in the browser, paths in the editor
+  document.querySelectorAll('.md-link').forEach(el => {
+    el.addEventListener('click', (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+
+      vscode.postMessage({
+        type: 'openLink',
+        filePath: currentPlan.filePath,
+        target: el.dataset.target
+      });
+    });
+
+    el.addEventListener('dblclick', (e) => {
+      e.stopPropagation();
+    });
+  });
+
+  // Click on a prerequisite/dependent: open it, possibly in another plan
+  document.querySelectorAll('.dep-link').forEach(el => {
+    el.addEventListener('click', (e) => {
+      e.stopPropagation();
+
+      vscode.postMessage({
+        type: 'navigateToLine',
+        filePath: el.dataset.file,
+        line: parseInt(el.dataset.line)
+      });
+    });
+  });
+
+  // Single-click on task checkbox: cycle [ ] → [>] → [x]
+  document.querySelectorAll('.checkbox.toggleable').forEach(el => {
+    el.addEventListener('click', (e) => {
+      e.stopPropagation();
+      postTaskState(el.dataset.id);
+    });
+
+    el.addEventListener('dblclick', (e) => {
+      e.stopPropagation();
+    });
+  });
+
+  // Right-click on task: choose a state explicitly
+  document.querySelectorAll('.task-header').forEach(el => {
+    el.addEventListener('contextmenu', (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      showTaskContextMenu(el.dataset.id, e.clientX, e.clientY);
+    });
+  });
+
+  // Right-click on heading: copy it with its tasks
+  document.querySelectorAll('.accordion-header:not(.task-header)').forEach(el => {
+    el.addEventListener('contextmenu', (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      showHeadingContextMenu(el.dataset.id, e.clientX, e.clientY);
+    });
+  });
+
   // Single-click on link icon: navigate to file
   document.querySelectorAll('.link-icon').forEach(el => {
     el.addEventListener('click', (e) => {
@@ -318,6 +1131,110 @@ function attachHandlers() {
   });
 }
 
+/**
+ * Asks the extension to change a task's state
+ * @param {string} id - Task id
+ * @param {string} [state] - Target state; omitted to cycle
+ */
+function postTaskState(id, state) {
+  if (!currentPlan || !id) {
+    return;
+  }
+
+  vscode.postMessage({
+    type: 'setTaskState',
+    filePath: currentPlan.filePath,
+    id: id,
+    state: state
+  });
+}
+
+/**
+ * Shows the task state context menu at the given position
+ */
+function showTaskContextMenu(id, x, y) {
+  hideTaskContextMenu();
+
+  const menu = document.createElement('div');
+  menu.className = 'context-menu';
+  menu.id = 'task-context-menu';
+  menu.innerHTML = getStates().map(state => `
+    <div class="context-menu-item" data-state="${escapeHtml(state.id)}">
+      ${renderCheckbox(state.id)}
+      <span>${escapeHtml(formatStateLabel(state))}</span>
+    </div>
+  `).join('');
+
+  placeContextMenu(menu, x, y);
+
+  menu.querySelectorAll('.context-menu-item').forEach(el => {
+    el.addEventListener('click', (e) => {
+      e.stopPropagation();
+      postTaskState(id, el.dataset.state);
+      hideTaskContextMenu();
+    });
+  });
+}
+
+/**
+ * Shows the heading context menu at the given position
+ */
+function showHeadingContextMenu(id, x, y) {
+  hideTaskContextMenu();
+
+  const menu = document.createElement('div');
+  menu.className = 'context-menu';
+  menu.id = 'task-context-menu';
+  menu.innerHTML = `
+    <div class="context-menu-item" data-action="copySubtree">
+      <span>Copy Subtree as Markdown</span>
+    </div>
+  `;
+
+  placeContextMenu(menu, x, y);
+
+  menu.querySelector('.context-menu-item').addEventListener('click', (e) => {
+    e.stopPropagation();
+    hideTaskContextMenu();
+
+    if (currentPlan) {
+      vscode.postMessage({
+        type: 'copySubtree',
+        filePath: currentPlan.filePath,
+        id: id
+      });
+    }
+  });
+}
+
+/**
+ * Adds a context menu to the page, kept inside the viewport
+ */
+function placeContextMenu(menu, x, y) {
+  document.body.appendChild(menu);
+
+  const maxX = window.innerWidth - menu.offsetWidth - 4;
+  const maxY = window.innerHeight - menu.offsetHeight - 4;
+  menu.style.left = `${Math.max(0, Math.min(x, maxX))}px`;
+  menu.style.top = `${Math.max(0, Math.min(y, maxY))}px`;
+}
+
+/**
+ * Removes the task context menu if open
+ */
+function hideTaskContextMenu() {
+  document.getElementById('task-context-menu')?.remove();
+}
+
+// Close context menu on outside click, Escape or blur
+document.addEventListener('click', hideTaskContextMenu);
+window.addEventListener('blur', hideTaskContextMenu);
+document.addEventListener('keydown', (e) => {
+  if (e.key === 'Escape') {
+    hideTaskContextMenu();
+  }
+});
+
 /**
  * Attaches expand/collapse all handlers
  */
@@ -373,10 +1290,17 @@ function renderEmptyState() {
   const app = document.getElementById('app');
   app.innerHTML = `
     <div class="empty-state">
-      <p>No PLAN*.md files found in workspace</p>
-      <p>Create a file starting with "PLAN" and ending with ".md"</p>
+      <p>No plan files found in workspace</p>
+      <p>Create a file starting with "PLAN" and ending with ".md", or add file patterns in settings</p>
+      <button class="settings-btn empty-settings-btn" id="empty-settings-btn" title="Configure Task View">⚙</button>
     </div>
   `;
+
+  document.getElementById('empty-settings-btn')?.addEventListener('click', () => {
+    vscode.postMessage({
+      type: 'openSettings'
+    });
+  });
 }
 
 /**
@@ -397,7 +1321,8 @@ function renderLoading(message) {
 function escapeHtml(text) {
   const div = document.createElement('div');
   div.textContent = text;
-  return div.innerHTML;
+  // innerHTML leaves quotes alone, but the result also goes into attributes
+  return div.innerHTML.replace(/"/g, '&quot;').replace(/'/g, '&#39;');
 }
 
 /**
@@ -410,31 +1335,66 @@ function renderSettings(config) {
   app.innerHTML = `
     <div class="settings-screen">
       <div class="settings-header">
-        <span class="settings-title">Task View Settings</span>
+        <span class="settings-title">
+          Task View Settings
+          ${currentConfigFolder && currentConfigFolder.isMultiRoot ? `<span class="settings-folder">${escapeHtml(currentConfigFolder.name)}</span>` : ''}
+        </span>
         <button class="settings-close-btn" id="close-settings">×</button>
       </div>
 
+      <div class="settings-section">
+        <div class="settings-section-title">Plan Files</div>
+        <div class="settings-description">
+          Glob patterns that identify plan files, relative to the workspace folder.
+        </div>
+
+        ${renderPatternList('include', config.include, 'e.g., **/PLAN*.md')}
+
+        <button class="add-exclusion-btn" data-action="add" data-list="include">+ Add File Pattern</button>
+
+        <label class="settings-checkbox">
+          <input type="checkbox" id="case-insensitive" ${config.caseInsensitive ? 'checked' : ''} />
+          Case-insensitive matching
+        </label>
+
+        <div class="settings-hint">
+          Examples: <code>**/PLAN*.md</code>, <code>**/TODO.md</code>, <code>**/ROADMAP.md</code>, <code>docs/plans/*.md</code>
+        </div>
+      </div>
+
+      <div class="settings-section">
+        <div class="settings-section-title">Task Anchors</div>
+        <div class="settings-description">
+          Anchors such as <code>&lt;!-- id:abc --&gt;</code> or <code>^abc</code> keep a task's identity stable when it is moved or reworded.
+        </div>
+
+        <label class="settings-checkbox">
+          <input type="checkbox" id="auto-anchors" ${config.autoAnchors ? 'checked' : ''} />
+          Insert anchors into tasks automatically on save
+        </label>
+      </div>
+
+      <div class="settings-section">
+        <div class="settings-section-title">Parent Tasks</div>
+        <div class="settings-description">
+          Rewrite a parent task's checkbox when its subtasks change: all done marks it <code>[x]</code>, any in progress marks it <code>[&gt;]</code>.
+        </div>
+
+        <label class="settings-checkbox">
+          <input type="checkbox" id="propagate-parent-state" ${config.propagateParentState ? 'checked' : ''} />
+          Update parent tasks from their subtasks
+        </label>
+      </div>
+
       <div class="settings-section">
         <div class="settings-section-title">Exclusions</div>
         <div class="settings-description">
-          Specify glob patterns to exclude when searching for PLAN*.md files. Use <code>**/folder/**</code> format for folders.
+          Specify glob patterns to exclude when searching for plan files. Use <code>**/folder/**</code> format for folders.
         </div>
 
-        <ul class="exclusion-list" id="exclusion-list">
-          ${config.exclusions.map((pattern, index) => `
-            <li class="exclusion-item">
-              <input
-                type="text"
-                value="${escapeHtml(pattern)}"
-                data-index="${index}"
-                placeholder="e.g., **/node_modules/**"
-              />
-              <button class="exclusion-item-btn" data-index="${index}" data-action="remove">×</button>
-            </li>
-          `).join('')}
-        </ul>
-
-        <button class="add-exclusion-btn" id="add-exclusion">+ Add Exclusion Pattern</button>
+        ${renderPatternList('exclusions', config.exclusions, 'e.g., **/node_modules/**')}
+
+        <button class="add-exclusion-btn" data-action="add" data-list="exclusions">+ Add Exclusion Pattern</button>
 
         <div class="settings-hint">
           Examples: <code>**/node_modules/**</code>, <code>**/src/**</code>, <code>**/dist/**</code>, <code>**/.git/**</code>
@@ -452,6 +1412,31 @@ function renderSettings(config) {
   attachSettingsHandlers(config);
 }
 
+/**
+ * Renders an editable list of glob patterns for the settings screen
+ * @param {string} listName - Config key the list edits
+ * @param {string[]} patterns - Current patterns
+ * @param {string} placeholder - Placeholder for empty inputs
+ */
+function renderPatternList(listName, patterns, placeholder) {
+  return `
+    <ul class="exclusion-list">
+      ${patterns.map((pattern, index) => `
+        <li class="exclusion-item">
+          <input
+            type="text"
+            value="${escapeHtml(pattern)}"
+            data-index="${index}"
+            data-list="${listName}"
+            placeholder="${escapeHtml(placeholder)}"
+          />
+          <button class="exclusion-item-btn" data-index="${index}" data-list="${listName}" data-action="remove">×</button>
+        </li>
+      `).join('')}
+    </ul>
+  `;
+}
+
 /**
  * Attaches event handlers for settings screen
  */
@@ -462,37 +1447,56 @@ function attachSettingsHandlers(config) {
   // Cancel button
   document.getElementById('cancel-settings')?.addEventListener('click', closeSettings);
 
-  // Add exclusion button
-  document.getElementById('add-exclusion')?.addEventListener('click', () => {
-    config.exclusions.push('');
-    renderSettings(config);
+  // Add pattern buttons
+  document.querySelectorAll('[data-action="add"]').forEach(btn => {
+    btn.addEventListener('click', (e) => {
+      config[e.target.dataset.list].push('');
+      renderSettings(config);
+    });
   });
 
-  // Remove exclusion buttons
+  // Remove pattern buttons
   document.querySelectorAll('[data-action="remove"]').forEach(btn => {
     btn.addEventListener('click', (e) => {
       const index = parseInt(e.target.dataset.index);
-      config.exclusions.splice(index, 1);
+      config[e.target.dataset.list].splice(index, 1);
       renderSettings(config);
     });
   });
 
-  // Update exclusion values on input
+  // Update pattern values on input
   document.querySelectorAll('.exclusion-item input').forEach(input => {
     input.addEventListener('input', (e) => {
       const index = parseInt(e.target.dataset.index);
-      config.exclusions[index] = e.target.value;
+      config[e.target.dataset.list][index] = e.target.value;
     });
   });
 
+  // Case-insensitive toggle
+  document.getElementById('case-insensitive')?.addEventListener('change', (e) => {
+    config.caseInsensitive = e.target.checked;
+  });
+
+  // Automatic anchors toggle
+  document.getElementById('auto-anchors')?.addEventListener('change', (e) => {
+    config.autoAnchors = e.target.checked;
+  });
+
+  // Parent state propagation toggle
+  document.getElementById('propagate-parent-state')?.addEventListener('change', (e) => {
+    config.propagateParentState = e.target.checked;
+  });
+
   // Save button
   document.getElementById('save-settings')?.addEventListener('click', () => {
-    // Filter out empty exclusions
+    // Filter out empty patterns
     config.exclusions = config.exclusions.filter(e => e.trim() !== '');
+    config.include = config.include.filter(e => e.trim() !== '');
 
     vscode.postMessage({
       type: 'saveConfig',
-      config: config
+      config: config,
+      folderPath: currentConfigFolder ? currentConfigFolder.path : ''
     });
 
     closeSettings();
@@ -504,7 +1508,9 @@ function attachSettingsHandlers(config) {
  */
 function closeSettings() {
   isSettingsOpen = false;
-  if (currentPlan) {
+  if (isOverviewOpen && currentOverview) {
+    renderOverview(currentOverview);
+  } else if (currentPlan) {
     renderPlan(currentPlan);
   } else {
     renderEmptyState();